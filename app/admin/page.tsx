@@ -1,9 +1,8 @@
 import { redirect } from 'next/navigation'
 import { createServiceClient } from '@/lib/supabase/server'
 import { format } from 'date-fns'
-import type { EstimateResult } from '@/types'
-
-const GRADE_ORDER = ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'U']
+import { compareGrades, letterEquivalent } from '@/lib/grades'
+import type { EstimateResult, Grade } from '@/types'
 
 const gradeColor: Record<string, string> = {
   'A*': '#C9A96E',
@@ -306,14 +305,14 @@ export default async function AdminPage({
 
   const gradeDistributionMap: Record<string, number> = {}
   for (const est of allSavedEstimates ?? []) {
-    const result = est.result as EstimateResult
+    const result = est.result as unknown as EstimateResult | null
     for (const entry of result?.entries ?? []) {
       const grade = entry.estimated_grade ?? 'U'
       gradeDistributionMap[grade] = (gradeDistributionMap[grade] ?? 0) + 1
     }
   }
   const gradeDistribution = Object.entries(gradeDistributionMap).sort(
-    ([a], [b]) => GRADE_ORDER.indexOf(a) - GRADE_ORDER.indexOf(b)
+    ([a], [b]) => compareGrades(a as Grade, b as Grade)
   )
 
   const totalPageViews = pageViewEvents?.length ?? 0
@@ -714,7 +713,7 @@ export default async function AdminPage({
               <>
                 <div className="flex flex-wrap gap-3">
                   {gradeDistribution.map(([grade, count]) => {
-                    const color = gradeColor[grade] ?? '#888'
+                    const color = gradeColor[letterEquivalent(grade as Grade)] ?? '#888'
                     return (
                       <div
                         key={grade}
@@ -1,8 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
-import type { EstimateResult } from '@/types'
-
-const GRADE_ORDER = ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'U']
+import { compareGrades } from '@/lib/grades'
+import type { EstimateResult, Grade } from '@/types'
 
 function getLast30Days(): string[] {
   const days: string[] = []
@@ -105,14 +104,14 @@ export async function GET(req: Request) {
   // Grade distribution (from saved estimate results)
   const gradeDistributionMap: Record<string, number> = {}
   for (const est of allSavedEstimates ?? []) {
-    const result = est.result as EstimateResult
+    const result = est.result as unknown as EstimateResult | null
     for (const entry of result?.entries ?? []) {
       const grade = entry.estimated_grade ?? 'U'
       gradeDistributionMap[grade] = (gradeDistributionMap[grade] ?? 0) + 1
     }
   }
   const gradeDistribution = Object.entries(gradeDistributionMap).sort(
-    ([a], [b]) => GRADE_ORDER.indexOf(a) - GRADE_ORDER.indexOf(b)
+    ([a], [b]) => compareGrades(a as Grade, b as Grade)
   )
 
   // Event counts by type and page views by day (last 30 days)
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/server'
+import { DATA_SOURCE } from '@/lib/data/mode'
+import type { Json } from '@/types/database'
 
 const VALID_EVENT_TYPES = new Set([
   'page_view',
@@ -28,11 +30,14 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: 'Invalid event_type' }, { status: 400 })
   }
 
+  // Nowhere to record events without a database
+  if (DATA_SOURCE === 'file') return NextResponse.json({ ok: true })
+
   try {
     const supabase = await createServiceClient()
     await supabase.from('analytics_events').insert({
       event_type: body.event_type,
-      event_data: body.event_data ?? null,
+      event_data: (body.event_data ?? null) as Json,
       session_id: body.session_id ?? null,
       user_id: body.user_id ?? null,
     })
@@ -1,6 +1,10 @@
 import { NextResponse } from 'next/server'
 import { calculateEstimate } from '@/lib/calculation/calculate'
+import { isForecastStrategy } from '@/lib/calculation/forecast'
+import { isPoolingMode, isSeason, isSeasonWeights } from '@/lib/calculation/average-thresholds'
 import { createServiceClient } from '@/lib/supabase/server'
+import { getRepositories } from '@/lib/data'
+import { isGradingScale } from '@/lib/grades'
 import type { CalculatePayload } from '@/types'
 
 async function logError(route: string, message: string) {
@@ -32,8 +36,34 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: 'Maximum 20 subjects per estimate' }, { status: 400 })
   }
 
+  if (body.entries.some((e) => e.grading_scale !== undefined && !isGradingScale(e.grading_scale))) {
+    return NextResponse.json({ error: 'Unknown grading_scale' }, { status: 400 })
+  }
+
+  if (body.forecast_strategy !== undefined && !isForecastStrategy(body.forecast_strategy)) {
+    return NextResponse.json({ error: 'Unknown forecast_strategy' }, { status: 400 })
+  }
+
+  if (body.pooling !== undefined && !isPoolingMode(body.pooling)) {
+    return NextResponse.json({ error: 'Unknown pooling mode' }, { status: 400 })
+  }
+
+  if (body.season !== undefined && !isSeason(body.season)) {
+    return NextResponse.json({ error: 'Unknown season' }, { status: 400 })
+  }
+
+  if (body.season_weights !== undefined && !isSeasonWeights(body.season_weights)) {
+    return NextResponse.json({ error: 'season_weights must map FM, MJ or ON to numbers of 0 or more' }, { status: 400 })
+  }
+
   try {
-    const result = await calculateEstimate(body.entries, body.season ?? 'MJ')
+    const { thresholds } = await getRepositories()
+    const result = await calculateEstimate(thresholds, body.entries, body.season ?? 'MJ', {
+      strategy: body.forecast_strategy,
+      // Sparse subjects would otherwise get no grade when the chosen season has no data
+      pooling: body.pooling ?? 'fallback',
+      seasonWeights: body.season_weights,
+    })
     return NextResponse.json(result)
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Calculation failed'
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { reverseEstimate } from '@/lib/calculation/calculate'
+import { isForecastStrategy } from '@/lib/calculation/forecast'
+import { isPoolingMode, isSeason, isSeasonWeights } from '@/lib/calculation/average-thresholds'
+import { createServiceClient } from '@/lib/supabase/server'
+import { getRepositories } from '@/lib/data'
+import { gradesFor, isGradingScale } from '@/lib/grades'
+import type { Grade, ReversePayload } from '@/types'
+
+async function logError(route: string, message: string) {
+  try {
+    const supabase = await createServiceClient()
+    await supabase.from('analytics_events').insert({
+      event_type: 'error',
+      event_data: { route, message },
+    })
+  } catch {
+    // analytics must never break the app
+  }
+}
+
+export async function POST(req: Request) {
+  let body: ReversePayload
+
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (!body.entries || !Array.isArray(body.entries) || body.entries.length === 0) {
+    return NextResponse.json({ error: 'entries array is required' }, { status: 400 })
+  }
+
+  if (body.entries.length > 20) {
+    return NextResponse.json({ error: 'Maximum 20 subjects per estimate' }, { status: 400 })
+  }
+
+  if (body.entries.some((e) => e.grading_scale !== undefined && !isGradingScale(e.grading_scale))) {
+    return NextResponse.json({ error: 'Unknown grading_scale' }, { status: 400 })
+  }
+
+  // Target grades must be on the subject's own scale (A* to G, or 9 to 1)
+  if (body.entries.some((e) => !(gradesFor(e.grading_scale) as Grade[]).includes(e.target_grade))) {
+    return NextResponse.json({ error: 'Each entry needs a target_grade on its grading scale' }, { status: 400 })
+  }
+
+  if (body.forecast_strategy !== undefined && !isForecastStrategy(body.forecast_strategy)) {
+    return NextResponse.json({ error: 'Unknown forecast_strategy' }, { status: 400 })
+  }
+
+  if (body.pooling !== undefined && !isPoolingMode(body.pooling)) {
+    return NextResponse.json({ error: 'Unknown pooling mode' }, { status: 400 })
+  }
+
+  if (body.season !== undefined && !isSeason(body.season)) {
+    return NextResponse.json({ error: 'Unknown season' }, { status: 400 })
+  }
+
+  if (body.season_weights !== undefined && !isSeasonWeights(body.season_weights)) {
+    return NextResponse.json({ error: 'season_weights must map FM, MJ or ON to numbers of 0 or more' }, { status: 400 })
+  }
+
+  try {
+    const { thresholds } = await getRepositories()
+    const results = await reverseEstimate(thresholds, body.entries, body.season ?? 'MJ', {
+      strategy: body.forecast_strategy,
+      pooling: body.pooling ?? 'fallback',
+      seasonWeights: body.season_weights,
+    })
+    return NextResponse.json({ entries: results })
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Reverse calculation failed'
+    console.error('[reverse]', err)
+    await logError('/api/estimate/reverse', message)
+    return NextResponse.json({ error: 'Reverse calculation failed' }, { status: 500 })
+  }
+}
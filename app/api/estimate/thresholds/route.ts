@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { loadSubjectThresholdData } from '@/lib/calculation/calculate'
+import { isForecastStrategy } from '@/lib/calculation/forecast'
+import { isPoolingMode, isSeason, isSeasonWeights, type ThresholdQueryOptions } from '@/lib/calculation/average-thresholds'
+import { getRepositories } from '@/lib/data'
+import { isGradingScale } from '@/lib/grades'
+import type { CalculatePayload, ThresholdDataResult } from '@/types'
+
+/**
+ * The threshold data /api/estimate/calculate would grade each entry against,
+ * for recalculating in the browser with lib/calculation/core. Marks in the
+ * payload are ignored — only the papers, tier and option matter.
+ */
+export async function POST(req: Request) {
+  let body: CalculatePayload
+
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  if (!body.entries || !Array.isArray(body.entries) || body.entries.length === 0) {
+    return NextResponse.json({ error: 'entries array is required' }, { status: 400 })
+  }
+
+  if (body.entries.length > 20) {
+    return NextResponse.json({ error: 'Maximum 20 subjects per estimate' }, { status: 400 })
+  }
+
+  if (body.entries.some((e) => e.grading_scale !== undefined && !isGradingScale(e.grading_scale))) {
+    return NextResponse.json({ error: 'Unknown grading_scale' }, { status: 400 })
+  }
+
+  if (body.forecast_strategy !== undefined && !isForecastStrategy(body.forecast_strategy)) {
+    return NextResponse.json({ error: 'Unknown forecast_strategy' }, { status: 400 })
+  }
+
+  if (body.pooling !== undefined && !isPoolingMode(body.pooling)) {
+    return NextResponse.json({ error: 'Unknown pooling mode' }, { status: 400 })
+  }
+
+  if (body.season !== undefined && !isSeason(body.season)) {
+    return NextResponse.json({ error: 'Unknown season' }, { status: 400 })
+  }
+
+  if (body.season_weights !== undefined && !isSeasonWeights(body.season_weights)) {
+    return NextResponse.json({ error: 'season_weights must map FM, MJ or ON to numbers of 0 or more' }, { status: 400 })
+  }
+
+  try {
+    const { thresholds } = await getRepositories()
+    const options: ThresholdQueryOptions = {
+      season: body.season ?? 'MJ',
+      strategy: body.forecast_strategy,
+      // Must match /api/estimate/calculate so both give the same grades
+      pooling: body.pooling ?? 'fallback',
+      seasonWeights: body.season_weights,
+    }
+    const result: ThresholdDataResult = {
+      entries: await Promise.all(body.entries.map((e) => loadSubjectThresholdData(thresholds, e, options))),
+    }
+    return NextResponse.json(result)
+  } catch (err) {
+    console.error('[thresholds]', err)
+    return NextResponse.json({ error: 'Failed to load thresholds' }, { status: 500 })
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getRepositories } from '@/lib/data'
+import { DATA_SOURCE } from '@/lib/data/mode'
 
 /**
  * PATCH /api/estimates/[id]/claim
@@ -10,6 +12,10 @@ export async function PATCH(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  if (DATA_SOURCE === 'file') {
+    return NextResponse.json({ error: 'Saved estimates are unavailable without a database' }, { status: 503 })
+  }
+
   const { id } = await params
   const supabase = await createClient()
 
@@ -31,14 +37,12 @@ export async function PATCH(
   }
 
   // Transfer all guest estimates for this session to the authenticated user
-  const { error } = await supabase
-    .from('saved_estimates')
-    .update({ user_id: user.id, session_id: null })
-    .eq('session_id', body.session_id)
-    .is('user_id', null)
-
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 })
+  const { estimates } = await getRepositories()
+
+  try {
+    await estimates.claim(body.session_id, user.id)
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 500 })
   }
 
   return NextResponse.json({ ok: true })
@@ -1,11 +1,17 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getRepositories } from '@/lib/data'
+import { DATA_SOURCE } from '@/lib/data/mode'
 
 // DELETE — remove a saved estimate
 export async function DELETE(
   _req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  if (DATA_SOURCE === 'file') {
+    return NextResponse.json({ error: 'Saved estimates are unavailable without a database' }, { status: 503 })
+  }
+
   const { id } = await params
   const supabase = await createClient()
 
@@ -15,14 +21,12 @@ export async function DELETE(
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  const { error } = await supabase
-    .from('saved_estimates')
-    .delete()
-    .eq('id', id)
-    .eq('user_id', user.id)
+  const { estimates } = await getRepositories()
 
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 })
+  try {
+    await estimates.delete(id, user.id)
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 500 })
   }
 
   return new NextResponse(null, { status: 204 })
@@ -1,5 +1,9 @@
 import { NextResponse } from 'next/server'
 import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { getRepositories } from '@/lib/data'
+import { DATA_SOURCE } from '@/lib/data/mode'
+import { isGradingScale } from '@/lib/grades'
+import { breakdownError } from '@/lib/question-marks'
 import type { SaveEstimatePayload } from '@/types'
 
 async function logError(route: string, message: string) {
@@ -16,42 +20,37 @@ async function logError(route: string, message: string) {
 
 // GET — fetch saved estimates for current user or guest session
 export async function GET(req: Request) {
+  // Saved estimates need a database; file mode has none
+  if (DATA_SOURCE === 'file') {
+    return NextResponse.json({ error: 'Saved estimates are unavailable without a database' }, { status: 503 })
+  }
+
   const { searchParams } = new URL(req.url)
   const sessionId = searchParams.get('session_id')
 
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
 
-  let query = supabase
-    .from('saved_estimates')
-    .select(`
-      id, label, created_at, result,
-      estimate_entries (
-        id, subject_id, tier_selected, paper_marks,
-        subjects ( syllabus_code, name )
-      )
-    `)
-    .order('created_at', { ascending: false })
-
-  if (user) {
-    query = query.eq('user_id', user.id)
-  } else if (sessionId) {
-    query = query.eq('session_id', sessionId).is('user_id', null)
-  } else {
+  const { estimates } = await getRepositories()
+  const owner = user ? { user_id: user.id } : sessionId ? { session_id: sessionId } : null
+
+  if (!owner) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  const { data, error } = await query
-
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 })
+  try {
+    return NextResponse.json(await estimates.list(owner))
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 500 })
   }
-
-  return NextResponse.json(data)
 }
 
 // POST — save a new estimate
 export async function POST(req: Request) {
+  if (DATA_SOURCE === 'file') {
+    return NextResponse.json({ error: 'Saved estimates are unavailable without a database' }, { status: 503 })
+  }
+
   let body: SaveEstimatePayload
 
   try {
@@ -60,45 +59,37 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
   }
 
+  if ((body.entries ?? []).some((e) => e.grading_scale !== undefined && !isGradingScale(e.grading_scale))) {
+    return NextResponse.json({ error: 'Unknown grading_scale' }, { status: 400 })
+  }
+
+  // Question breakdowns are saved as entered, so they must agree with the paper marks
+  const badBreakdown = (body.entries ?? []).flatMap((e) => e.paper_marks ?? []).map(breakdownError).find(Boolean)
+  if (badBreakdown) {
+    return NextResponse.json({ error: badBreakdown }, { status: 400 })
+  }
+
   const supabase = await createClient()
   const { data: { user } } = await supabase.auth.getUser()
 
-  // Create the parent estimate record
-  const { data: estimate, error: estimateError } = await supabase
-    .from('saved_estimates')
-    .insert({
-      user_id: user?.id ?? null,
-      session_id: user ? null : (body.session_id ?? null),
+  // Guests' estimates are kept against their browser session until claimed
+  const owner = user ? { user_id: user.id } : body.session_id ? { session_id: body.session_id } : null
+  if (!owner) {
+    return NextResponse.json({ error: 'session_id is required' }, { status: 400 })
+  }
+
+  const { estimates } = await getRepositories()
+
+  try {
+    const id = await estimates.create(owner, {
       label: body.label ?? null,
       result: body.result,
+      entries: body.entries ?? [],
     })
-    .select('id')
-    .single()
-
-  if (estimateError || !estimate) {
-    const msg = estimateError?.message ?? 'Insert failed'
+    return NextResponse.json({ id }, { status: 201 })
+  } catch (err) {
+    const msg = (err as Error).message
     await logError('/api/estimates', msg)
     return NextResponse.json({ error: msg }, { status: 500 })
   }
-
-  // Insert entries
-  if (body.entries && body.entries.length > 0) {
-    const { error: entriesError } = await supabase.from('estimate_entries').insert(
-      body.entries.map((e) => ({
-        estimate_id: estimate.id,
-        subject_id: e.subject_id,
-        tier_selected: e.tier_selected,
-        paper_marks: e.paper_marks,
-      }))
-    )
-
-    if (entriesError) {
-      // Roll back the estimate header
-      await supabase.from('saved_estimates').delete().eq('id', estimate.id)
-      await logError('/api/estimates', entriesError.message)
-      return NextResponse.json({ error: entriesError.message }, { status: 500 })
-    }
-  }
-
-  return NextResponse.json({ id: estimate.id }, { status: 201 })
 }
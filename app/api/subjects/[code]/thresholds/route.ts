@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
-import { averageThresholds } from '@/lib/calculation/average-thresholds'
+import { getRepositories } from '@/lib/data'
+import { averageThresholds, isPoolingMode, isSeason, parseSeasonWeights } from '@/lib/calculation/average-thresholds'
+import { DEFAULT_FORECAST_STRATEGY, isForecastStrategy } from '@/lib/calculation/forecast'
 
 export async function GET(
   req: Request,
@@ -9,20 +10,52 @@ export async function GET(
   const { code } = await params
   const { searchParams } = new URL(req.url)
   const tier = searchParams.get('tier') as 'Core' | 'Extended' | null
+  const season = searchParams.get('season') ?? 'FM'
+  const strategy = searchParams.get('strategy') ?? DEFAULT_FORECAST_STRATEGY
+  const pooling = searchParams.get('pooling') ?? 'none'
+  const optionCode = searchParams.get('option')
+  const weightsParam = searchParams.get('weights')
+  const seasonWeights = weightsParam ? parseSeasonWeights(weightsParam) : {}
+  // Syllabus version as exam years, e.g. ?from=2023 for the current 0478 structure
+  const validFrom = searchParams.get('from') ? Number(searchParams.get('from')) : null
+  const validTo = searchParams.get('to') ? Number(searchParams.get('to')) : null
 
-  const supabase = await createClient()
+  if (!isSeason(season)) {
+    return NextResponse.json({ error: 'Unknown season' }, { status: 400 })
+  }
+
+  if (!isForecastStrategy(strategy)) {
+    return NextResponse.json({ error: 'Unknown strategy' }, { status: 400 })
+  }
+
+  if (!isPoolingMode(pooling)) {
+    return NextResponse.json({ error: 'Unknown pooling mode' }, { status: 400 })
+  }
+
+  if (!seasonWeights) {
+    return NextResponse.json({ error: 'Invalid weights — expected e.g. FM:1,MJ:0.5' }, { status: 400 })
+  }
+
+  if ([validFrom, validTo].some((y) => y !== null && !Number.isInteger(y))) {
+    return NextResponse.json({ error: 'from and to must be exam years' }, { status: 400 })
+  }
 
-  const { data: subject, error } = await supabase
-    .from('subjects')
-    .select('id')
-    .eq('syllabus_code', code)
-    .single()
+  const repos = await getRepositories()
+  const subject = await repos.subjects.getByCode(code).catch(() => null)
 
-  if (error || !subject) {
+  if (!subject) {
     return NextResponse.json({ error: 'Subject not found' }, { status: 404 })
   }
 
-  const thresholds = await averageThresholds(supabase, subject.id, tier)
+  const thresholds = await averageThresholds(repos.thresholds, subject.id, tier, {
+    season,
+    strategy,
+    pooling,
+    seasonWeights,
+    optionCode,
+    gradingScale: subject.grading_scale,
+    version: validFrom !== null || validTo !== null ? { valid_from: validFrom, valid_to: validTo } : null,
+  })
 
   return NextResponse.json(thresholds)
 }
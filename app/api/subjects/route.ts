@@ -1,17 +1,12 @@
 import { NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { getRepositories } from '@/lib/data'
 
 export async function GET() {
-  const supabase = await createClient()
+  const { subjects } = await getRepositories()
 
-  const { data, error } = await supabase
-    .from('subjects')
-    .select('id, syllabus_code, name, has_tiers')
-    .order('name')
-
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 })
+  try {
+    return NextResponse.json(await subjects.list())
+  } catch (err) {
+    return NextResponse.json({ error: (err as Error).message }, { status: 500 })
   }
-
-  return NextResponse.json(data)
 }
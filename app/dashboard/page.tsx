@@ -7,18 +7,15 @@ import { Button } from '@/components/ui'
 import { createClient } from '@/lib/supabase/client'
 import { format } from 'date-fns'
 import { trackEvent } from '@/lib/analytics'
-import type { EstimateResult, Grade } from '@/types'
+import { compareGrades, letterEquivalent } from '@/lib/grades'
+import type { SavedEstimateRecord } from '@/lib/data/repositories'
+import type { EstimateResult, Grade, PaperMarkEntry } from '@/types'
 
-interface SavedEstimate {
-  id: string
-  label: string | null
-  created_at: string
+interface SavedEstimate extends SavedEstimateRecord {
   result: EstimateResult
 }
 
-const GRADE_ORDER = ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'U']
-
-const gradeColor: Record<string, string> = {
+const GRADE_COLORS: Record<string, string> = {
   'A*': '#C9A96E',
   'A':  '#B8C9A9',
   'B':  '#A9B8C9',
@@ -30,6 +27,11 @@ const gradeColor: Record<string, string> = {
   'U':  '#CF6679',
 }
 
+// 9–1 grades take the colour of the letter grade they align with
+function gradeColor(grade: string): string {
+  return GRADE_COLORS[letterEquivalent(grade as Grade)] ?? '#888'
+}
+
 function gradeDistribution(result: EstimateResult) {
   const counts: Record<string, number> = {}
   result.entries.forEach((e) => {
@@ -37,7 +39,34 @@ function gradeDistribution(result: EstimateResult) {
     counts[g] = (counts[g] ?? 0) + 1
   })
   return Object.entries(counts).sort(
-    ([a], [b]) => GRADE_ORDER.indexOf(a) - GRADE_ORDER.indexOf(b)
+    ([a], [b]) => compareGrades(a as Grade, b as Grade)
+  )
+}
+
+/** The marks saved for a subject, with any question-by-question breakdown. */
+function SavedMarks({ paperMarks }: { paperMarks: PaperMarkEntry[] }) {
+  const entered = paperMarks.filter((pm) => pm.raw_mark >= 0)
+  if (entered.length === 0) return null
+
+  return (
+    <div className="mt-1.5 space-y-1 text-xs" style={{ fontFamily: 'var(--font-sans)' }}>
+      {entered.map((pm) => (
+        <div key={pm.paper_id}>
+          <span style={{ color: '#555' }}>{pm.paper_name}</span>
+          <span className="ml-2 tabular-nums" style={{ color: '#888' }}>
+            {pm.raw_mark} / {pm.max_raw_mark}
+          </span>
+          {pm.questions && pm.questions.length > 0 && (
+            <div className="tabular-nums" style={{ color: '#3D3D3D' }}>
+              {pm.questions
+                .filter((q) => q.mark >= 0)
+                .map((q) => `Q${q.question} ${q.mark}`)
+                .join(' · ')}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
   )
 }
 
@@ -106,16 +135,16 @@ function EstimateCard({
                 key={grade}
                 className="flex items-center gap-1 px-2.5 py-1 rounded-sm border"
                 style={{
-                  borderColor: `${gradeColor[grade]}30`,
-                  background: `${gradeColor[grade]}0D`,
+                  borderColor: `${gradeColor(grade)}30`,
+                  background: `${gradeColor(grade)}0D`,
                   fontFamily: 'var(--font-sans)',
                 }}
               >
-                <span className="font-display text-base leading-none" style={{ color: gradeColor[grade] }}>
+                <span className="font-display text-base leading-none" style={{ color: gradeColor(grade) }}>
                   {grade}
                 </span>
                 {count > 1 && (
-                  <span className="text-xs" style={{ color: gradeColor[grade], opacity: 0.7 }}>×{count}</span>
+                  <span className="text-xs" style={{ color: gradeColor(grade), opacity: 0.7 }}>×{count}</span>
                 )}
               </div>
             ))}
@@ -160,7 +189,8 @@ function EstimateCard({
           >
             <div className="px-6 py-4 space-y-0">
               {est.result.entries.map((entry, i) => {
-                const color = gradeColor[entry.estimated_grade ?? 'U'] ?? '#888'
+                const color = gradeColor(entry.estimated_grade ?? 'U')
+                const saved = est.estimate_entries?.find((e) => e.subject_id === entry.subject_id)
                 return (
                   <div
                     key={entry.subject_id}
@@ -178,6 +208,7 @@ function EstimateCard({
                           {entry.tier_selected}
                         </span>
                       )}
+                      {saved && <SavedMarks paperMarks={saved.paper_marks} />}
                     </div>
 
                     <div className="flex items-center gap-4 flex-shrink-0">
@@ -251,7 +282,7 @@ export default function DashboardPage() {
 
   const totalSubjects = estimates.reduce((sum, e) => sum + (e.result?.entries?.length ?? 0), 0)
   const allGrades = estimates.flatMap((e) => e.result?.entries?.map((en) => en.estimated_grade) ?? [])
-  const topGrade = allGrades.sort((a, b) => GRADE_ORDER.indexOf(a ?? 'U') - GRADE_ORDER.indexOf(b ?? 'U'))[0]
+  const topGrade = allGrades.sort((a, b) => compareGrades(a ?? 'U', b ?? 'U'))[0]
 
   return (
     <main className="min-h-screen" style={{ background: '#0C0C0C' }}>
@@ -324,7 +355,7 @@ export default function DashboardPage() {
                 <>
                   <div style={{ width: '1px', height: '32px', background: '#2A2A2A' }} />
                   <div>
-                    <div className="font-display text-2xl font-light" style={{ color: gradeColor[topGrade] ?? '#C9A96E' }}>{topGrade}</div>
+                    <div className="font-display text-2xl font-light" style={{ color: gradeColor(topGrade) }}>{topGrade}</div>
                     <div className="text-xs mt-0.5" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>best grade</div>
                   </div>
                 </>
@@ -10,6 +10,7 @@ import { MarkInput } from '@/components/estimate/MarkInput'
 import { ReviewStep } from '@/components/estimate/ReviewStep'
 import { Stepper } from '@/components/ui'
 import { createClient } from '@/lib/supabase/client'
+import { DATA_SOURCE } from '@/lib/data/mode'
 import { trackEvent } from '@/lib/analytics'
 
 const STEPS = [
@@ -25,6 +26,7 @@ function EstimatorContent() {
 
   useEffect(() => {
     trackEvent('page_view', { path: '/estimate' })
+    if (DATA_SOURCE === 'file') return
 
     createClient().auth.getUser().then(({ data: { user } }) => {
       setIsLoggedIn(!!user)
@@ -76,7 +78,7 @@ function EstimatorContent() {
           >
             Dashboard
           </Link>
-        ) : (
+        ) : DATA_SOURCE === 'file' ? null : (
           <Link
             href="/auth/login"
             className="text-sm transition-colors hover:opacity-80"
@@ -6,6 +6,7 @@ import Link from 'next/link'
 import { motion } from 'framer-motion'
 import { Button } from '@/components/ui'
 import { createClient } from '@/lib/supabase/client'
+import { DATA_SOURCE } from '@/lib/data/mode'
 import { trackEvent } from '@/lib/analytics'
 
 const steps = [
@@ -64,6 +65,8 @@ export default function LandingPage() {
   useEffect(() => {
     trackEvent('page_view', { path: '/' })
 
+    if (DATA_SOURCE === 'file') return
+
     const supabase = createClient()
     supabase.auth.getUser().then(({ data: { user } }) => {
       if (user) router.replace('/dashboard')
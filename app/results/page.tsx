@@ -8,19 +8,21 @@ import { GradeCard } from '@/components/results/GradeCard'
 import { Button } from '@/components/ui'
 import { getOrCreateSessionId } from '@/lib/utils/session'
 import { createClient } from '@/lib/supabase/client'
+import { DATA_SOURCE } from '@/lib/data/mode'
 import { trackEvent } from '@/lib/analytics'
-import type { EstimateResult, SubjectEstimateInput } from '@/types'
+import { compareGrades, letterEquivalent } from '@/lib/grades'
+import type { EstimateResult, Grade, Season, SubjectEstimateInput } from '@/types'
 
 interface StoredEstimate {
   result: EstimateResult
   entries: SubjectEstimateInput[]
+  season?: Season
 }
 
-const GRADE_ORDER = ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'U']
-
 function gradeColor(grade: string | null): string {
   if (!grade) return '#555'
-  switch (grade) {
+  // 9–1 grades take the colour of the letter grade they align with
+  switch (letterEquivalent(grade as Grade)) {
     case 'A*': return '#C9A96E'
     case 'A':  return '#B8C9A9'
     case 'B':  return '#A9B8C9'
@@ -44,6 +46,9 @@ export default function ResultsPage() {
     if (!raw) { router.push('/estimate'); return }
     try { setData(JSON.parse(raw)) } catch { router.push('/estimate') }
 
+    // No accounts or saved estimates without a database
+    if (DATA_SOURCE === 'file') return
+
     createClient().auth.getUser().then(({ data: { user } }) => {
       setIsLoggedIn(!!user)
     })
@@ -90,7 +95,7 @@ export default function ResultsPage() {
   }, {})
 
   const sortedGrades = Object.entries(gradeCount).sort(([a], [b]) =>
-    GRADE_ORDER.indexOf(a) - GRADE_ORDER.indexOf(b)
+    compareGrades(a as Grade, b as Grade)
   )
 
   const avgWeighted = result.entries.length > 0
@@ -127,7 +132,7 @@ export default function ResultsPage() {
           Threshold
         </Link>
         <div className="flex items-center gap-3">
-          {!saved ? (
+          {DATA_SOURCE === 'file' ? null : !saved ? (
             <Button
               size="sm"
               variant="primary"
@@ -211,7 +216,13 @@ export default function ResultsPage() {
         {/* Grade cards */}
         <div className="space-y-4">
           {result.entries.map((entry, i) => (
-            <GradeCard key={entry.subject_id} result={entry} index={i} />
+            <GradeCard
+              key={entry.subject_id}
+              result={entry}
+              index={i}
+              entry={data.entries.find((e) => e.subject_id === entry.subject_id)}
+              season={data.season}
+            />
           ))}
         </div>
 
@@ -222,7 +233,7 @@ export default function ResultsPage() {
         )}
 
         {/* Guest prompt */}
-        {!isLoggedIn && !saved && (
+        {DATA_SOURCE !== 'file' && !isLoggedIn && !saved && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
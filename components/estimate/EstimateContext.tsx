@@ -1,13 +1,38 @@
 'use client'
 
-import { createContext, useContext, useState, ReactNode } from 'react'
-import type { Subject, Paper, Tier, Season, PaperMarkEntry, SubjectEstimateInput } from '@/types'
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from 'react'
+import type {
+  Subject,
+  Paper,
+  Tier,
+  Season,
+  Grade,
+  PaperMarkEntry,
+  QuestionMark,
+  SubjectEstimateInput,
+  SubjectEstimateResult,
+  SubjectThresholdData,
+  SyllabusVersion,
+  ThresholdDataResult,
+} from '@/types'
+import { estimateSubject } from '@/lib/calculation/core'
+import { questionTotal } from '@/lib/question-marks'
 
 export interface SelectedSubject {
   subject: Subject
   tier: Tier | null
+  option: string | null // syllabus option code; null = the default option
+  version: SyllabusVersion | null // syllabus version being sat; null = the newest
   selectedPapers: Paper[]
   marks: Record<string, number> // paper.id → raw_mark
+  ranges: Record<string, MarkRange> // paper.id → optional low/high raw_mark
+  questions: Record<string, QuestionMark[]> // paper.id → question breakdown, when entered that way
+  target: Grade | null // target mode: grade the student is aiming for
+}
+
+export interface MarkRange {
+  low: number
+  high: number
 }
 
 interface EstimateContextValue {
@@ -17,9 +42,17 @@ interface EstimateContextValue {
   addSubject: (subject: Subject) => void
   removeSubject: (subjectId: string) => void
   setTier: (subjectId: string, tier: Tier | null) => void
+  setOption: (subjectId: string, option: string | null) => void
+  setVersion: (subjectId: string, version: SyllabusVersion | null) => void
   togglePaper: (subjectId: string, paper: Paper, allAvailablePapers?: Paper[]) => void
   setMark: (subjectId: string, paperId: string, mark: number) => void
+  setMarkRange: (subjectId: string, paperId: string, range: MarkRange | null) => void
+  setQuestions: (subjectId: string, paperId: string, questions: QuestionMark[] | null) => void
+  setTarget: (subjectId: string, target: Grade | null) => void
+  targetMode: boolean
+  setTargetMode: (on: boolean) => void
   buildPayload: () => SubjectEstimateInput[]
+  previewFor: (subjectId: string) => SubjectEstimateResult | null
   season: Season
   setSeason: (s: Season) => void
   reset: () => void
@@ -27,15 +60,89 @@ interface EstimateContextValue {
 
 const EstimateContext = createContext<EstimateContextValue | null>(null)
 
+/** The calculation input for one selected subject, as buildPayload sends it. */
+export function toEntry(s: SelectedSubject): SubjectEstimateInput {
+  return {
+    subject_id:    s.subject.id,
+    subject_code:  s.subject.syllabus_code,
+    subject_name:  s.subject.name,
+    tier_selected: s.tier,
+    option_code:   s.option,
+    grading_scale: s.subject.grading_scale,
+    paper_marks:   s.selectedPapers.map((p): PaperMarkEntry => ({
+      paper_id:         p.id,
+      paper_number:     p.paper_number,
+      paper_name:       p.name,
+      raw_mark:         s.marks[p.id] ?? -1,
+      raw_mark_low:     s.ranges[p.id]?.low,
+      raw_mark_high:    s.ranges[p.id]?.high,
+      max_raw_mark:     p.max_raw_mark,
+      weight_percentage: p.weight_percentage,
+      is_ums:           p.is_ums,
+      max_ums_mark:     p.max_ums_mark,
+      is_endorsement:   p.is_endorsement,
+      valid_from:       p.valid_from,
+      valid_to:         p.valid_to,
+      questions:        s.questions[p.id],
+    })),
+  }
+}
+
+// Threshold data depends on the papers, tier, option and season but not the marks
+function thresholdKey(s: SelectedSubject, season: Season): string {
+  return [s.subject.id, s.tier ?? '', s.option ?? '', season, ...s.selectedPapers.map((p) => p.id).sort()].join('|')
+}
+
 export function EstimateProvider({ children }: { children: ReactNode }) {
   const [step, setStep] = useState(0)
   const [selectedSubjects, setSelectedSubjects] = useState<SelectedSubject[]>([])
   const [season, setSeason] = useState<Season>('MJ')
+  const [targetMode, setTargetMode] = useState(false)
+  const [thresholdData, setThresholdData] = useState<Record<string, SubjectThresholdData>>({})
+
+  // Prefetch threshold data as papers are chosen, so the grade preview can
+  // recalculate in the browser on every keystroke
+  const unloaded = useMemo(
+    () => selectedSubjects.filter((s) => s.selectedPapers.length > 0 && !(thresholdKey(s, season) in thresholdData)),
+    [selectedSubjects, season, thresholdData]
+  )
+
+  useEffect(() => {
+    if (unloaded.length === 0) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch('/api/estimate/thresholds', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ entries: unloaded.map(toEntry), season }),
+          signal: controller.signal,
+        })
+        if (!res.ok) return
+        const data: ThresholdDataResult = await res.json()
+        setThresholdData((prev) => ({
+          ...prev,
+          ...Object.fromEntries(unloaded.map((s, i) => [thresholdKey(s, season), data.entries[i]])),
+        }))
+      } catch {
+        // No preview then — the grade is still calculated on review
+      }
+    }, 300)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [unloaded, season])
 
   function addSubject(subject: Subject) {
     setSelectedSubjects((prev) => {
       if (prev.find((s) => s.subject.id === subject.id)) return prev
-      return [...prev, { subject, tier: null, selectedPapers: [], marks: {} }]
+      return [
+        ...prev,
+        { subject, tier: null, option: null, version: null, selectedPapers: [], marks: {}, ranges: {}, questions: {}, target: null },
+      ]
     })
   }
 
@@ -47,7 +154,35 @@ export function EstimateProvider({ children }: { children: ReactNode }) {
     setSelectedSubjects((prev) =>
       prev.map((s) =>
         s.subject.id === subjectId
-          ? { ...s, tier, selectedPapers: [], marks: {} }
+          ? { ...s, tier, option: null, selectedPapers: [], marks: {}, ranges: {}, questions: {} }
+          : s
+      )
+    )
+  }
+
+  function setOption(subjectId: string, option: string | null) {
+    setSelectedSubjects((prev) =>
+      prev.map((s) => {
+        if (s.subject.id !== subjectId) return s
+        // Drop papers that aren't sat under the new option
+        const selectedPapers = s.selectedPapers.filter(
+          (p) => !option || !p.option_codes || p.option_codes.includes(option)
+        )
+        const kept = new Set(selectedPapers.map((p) => p.id))
+        const marks = Object.fromEntries(Object.entries(s.marks).filter(([id]) => kept.has(id)))
+        const ranges = Object.fromEntries(Object.entries(s.ranges).filter(([id]) => kept.has(id)))
+        const questions = Object.fromEntries(Object.entries(s.questions).filter(([id]) => kept.has(id)))
+        return { ...s, option, selectedPapers, marks, ranges, questions }
+      })
+    )
+  }
+
+  // Versions have different papers, so switching starts the selection again
+  function setVersion(subjectId: string, version: SyllabusVersion | null) {
+    setSelectedSubjects((prev) =>
+      prev.map((s) =>
+        s.subject.id === subjectId
+          ? { ...s, version, selectedPapers: [], marks: {}, ranges: {}, questions: {} }
           : s
       )
     )
@@ -60,9 +195,13 @@ export function EstimateProvider({ children }: { children: ReactNode }) {
         const exists = s.selectedPapers.find((p) => p.id === paper.id)
         let selectedPapers = [...s.selectedPapers]
         const marks = { ...s.marks }
+        const ranges = { ...s.ranges }
+        const questions = { ...s.questions }
         if (exists) {
           selectedPapers = selectedPapers.filter((p) => p.id !== paper.id)
           delete marks[paper.id]
+          delete ranges[paper.id]
+          delete questions[paper.id]
         } else {
           // If this paper belongs to a group, deselect others in the same group first
           if (paper.paper_group && allAvailablePapers) {
@@ -70,12 +209,14 @@ export function EstimateProvider({ children }: { children: ReactNode }) {
               if (gp.paper_group === paper.paper_group && gp.id !== paper.id) {
                 selectedPapers = selectedPapers.filter((p) => p.id !== gp.id)
                 delete marks[gp.id]
+                delete ranges[gp.id]
+                delete questions[gp.id]
               }
             }
           }
           selectedPapers = [...selectedPapers, paper]
         }
-        return { ...s, selectedPapers, marks }
+        return { ...s, selectedPapers, marks, ranges, questions }
       })
     )
   }
@@ -90,28 +231,64 @@ export function EstimateProvider({ children }: { children: ReactNode }) {
     )
   }
 
+  function setMarkRange(subjectId: string, paperId: string, range: MarkRange | null) {
+    setSelectedSubjects((prev) =>
+      prev.map((s) => {
+        if (s.subject.id !== subjectId) return s
+        const ranges = { ...s.ranges }
+        if (range) ranges[paperId] = range
+        else delete ranges[paperId]
+        return { ...s, ranges }
+      })
+    )
+  }
+
+  // The paper's mark follows its breakdown; dropping the breakdown keeps the last total
+  function setQuestions(subjectId: string, paperId: string, questions: QuestionMark[] | null) {
+    setSelectedSubjects((prev) =>
+      prev.map((s) => {
+        if (s.subject.id !== subjectId) return s
+        const next = { ...s.questions }
+        if (!questions) {
+          delete next[paperId]
+          return { ...s, questions: next }
+        }
+        next[paperId] = questions
+        return { ...s, questions: next, marks: { ...s.marks, [paperId]: questionTotal(questions) } }
+      })
+    )
+  }
+
+  function setTarget(subjectId: string, target: Grade | null) {
+    setSelectedSubjects((prev) =>
+      prev.map((s) => (s.subject.id === subjectId ? { ...s, target } : s))
+    )
+  }
+
   function buildPayload(): SubjectEstimateInput[] {
-    return selectedSubjects.map((s) => ({
-      subject_id:    s.subject.id,
-      subject_code:  s.subject.syllabus_code,
-      subject_name:  s.subject.name,
-      tier_selected: s.tier,
-      paper_marks:   s.selectedPapers.map((p): PaperMarkEntry => ({
-        paper_id:         p.id,
-        paper_number:     p.paper_number,
-        paper_name:       p.name,
-        raw_mark:         s.marks[p.id] ?? -1,
-        max_raw_mark:     p.max_raw_mark,
-        weight_percentage: p.weight_percentage,
-        is_ums:           p.is_ums,
-      })),
-    }))
+    return selectedSubjects.map(toEntry)
+  }
+
+  /**
+   * The subject's grade from the calculation core, against prefetched
+   * thresholds. Only a preview: the results page shows the server's. Null
+   * until the thresholds arrive, and while no mark or an invalid one is entered.
+   */
+  function previewFor(subjectId: string): SubjectEstimateResult | null {
+    const s = selectedSubjects.find((ss) => ss.subject.id === subjectId)
+    const data = s && thresholdData[thresholdKey(s, season)]
+    if (!s || !data) return null
+
+    const entered = s.selectedPapers.filter((p) => (s.marks[p.id] ?? -1) >= 0)
+    if (entered.length === 0 || entered.some((p) => s.marks[p.id] > p.max_raw_mark)) return null
+    return estimateSubject(toEntry(s), data)
   }
 
   function reset() {
     setStep(0)
     setSelectedSubjects([])
     setSeason('MJ')
+    setTargetMode(false)
   }
 
   return (
@@ -120,8 +297,9 @@ export function EstimateProvider({ children }: { children: ReactNode }) {
         step, setStep,
         selectedSubjects,
         addSubject, removeSubject,
-        setTier, togglePaper, setMark,
-        buildPayload,
+        setTier, setOption, setVersion, togglePaper, setMark, setMarkRange, setQuestions, setTarget,
+        targetMode, setTargetMode,
+        buildPayload, previewFor,
         season, setSeason,
         reset,
       }}
@@ -0,0 +1,56 @@
+'use client'
+
+import { useEstimate, type SelectedSubject } from './EstimateContext'
+import { Badge } from '@/components/ui'
+
+interface LiveGradeProps {
+  subject: SelectedSubject
+}
+
+/**
+ * Estimated grade for one subject, updated as each mark is typed, with how
+ * far the weighted total sits from the boundaries either side.
+ */
+export function LiveGrade({ subject: ss }: LiveGradeProps) {
+  const { previewFor } = useEstimate()
+  const preview = previewFor(ss.subject.id)
+  if (!preview || preview.thresholds.length === 0) return null
+
+  const { thresholds, estimated_grade: grade, weighted_total_pct: pct } = preview
+  const index = grade ? thresholds.findIndex((t) => t.grade === grade) : thresholds.length
+  const next = index > 0 ? thresholds[index - 1] : null
+  const current = grade ? thresholds[index] : null
+
+  // The paper where the fewest extra marks reach the next grade
+  const closest = preview.sensitivity
+    .filter((s) => s.marks_to_next !== null)
+    .sort((a, b) => (a.marks_to_next ?? 0) - (b.marks_to_next ?? 0))[0]
+
+  return (
+    <div className="mt-4 flex items-start gap-3" style={{ fontFamily: 'var(--font-sans)' }}>
+      <Badge variant="grade" grade={grade ?? 'U'}>
+        {grade ?? 'U'}
+      </Badge>
+      <div className="text-xs space-y-0.5">
+        {current && (
+          <div style={{ color: '#888' }}>
+            {Math.max(pct - current.averaged_pct, 0).toFixed(1)}% above the {current.grade} boundary
+          </div>
+        )}
+        {next && (
+          <div style={{ color: '#888' }}>
+            {Math.max(next.averaged_pct - pct, 0).toFixed(1)}% short of {next.grade}
+            {closest && (
+              <span style={{ color: '#555' }}>
+                {' '}— {closest.marks_to_next} more mark{closest.marks_to_next === 1 ? '' : 's'} on {closest.paper_name}
+              </span>
+            )}
+          </div>
+        )}
+        <div style={{ color: '#3D3D3D' }}>
+          {preview.missing_papers ? 'Preview from the papers entered so far' : 'Preview'} — confirmed when you calculate
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,17 +2,29 @@
 
 import { motion } from 'framer-motion'
 import { useEstimate } from './EstimateContext'
+import { TargetPanel } from './TargetPanel'
+import { LiveGrade } from './LiveGrade'
+import { QuestionBreakdown } from './QuestionBreakdown'
 import { Button, Input } from '@/components/ui'
+import { breakdownError } from '@/lib/question-marks'
 
 export function MarkInput() {
-  const { selectedSubjects, setMark, setStep } = useEstimate()
+  const { selectedSubjects, setMark, setMarkRange, setQuestions, setStep, targetMode, setTargetMode } = useEstimate()
 
-  const canContinue = selectedSubjects.every((s) =>
-    s.selectedPapers.every((p) => {
+  // In target mode, papers not yet sat can stay blank as long as one mark is entered
+  const canContinue = selectedSubjects.every((s) => {
+    const entered = s.selectedPapers.filter((p) => {
       const mark = s.marks[p.id]
-      return mark !== undefined && mark >= 0 && mark <= p.max_raw_mark
+      return mark !== undefined && mark >= 0
     })
-  )
+    const allValid = entered.every((p) => s.marks[p.id] <= p.max_raw_mark) &&
+      s.selectedPapers.every((p) => !breakdownError({
+        raw_mark: s.marks[p.id] ?? -1,
+        max_raw_mark: p.max_raw_mark,
+        questions: s.questions[p.id],
+      }))
+    return allValid && (targetMode ? entered.length > 0 : entered.length === s.selectedPapers.length)
+  })
 
   return (
     <div className="flex flex-col gap-6">
@@ -22,7 +34,17 @@ export function MarkInput() {
         </h2>
         <p className="text-sm" style={{ color: '#888', fontFamily: 'var(--font-sans)' }}>
           Enter your estimated raw mark for each paper. Marks are weighted automatically.
+          Not sure? Add a range and we&apos;ll show a best and worst case too.
         </p>
+        <button
+          onClick={() => setTargetMode(!targetMode)}
+          className="mt-3 text-xs transition-colors cursor-pointer"
+          style={{ color: targetMode ? '#C9A96E' : '#555', fontFamily: 'var(--font-sans)' }}
+        >
+          {targetMode
+            ? 'Target mode on — leave unsat papers blank'
+            : "Haven't sat every paper? Switch to target mode"}
+        </button>
       </div>
 
       <div className="space-y-5">
@@ -64,37 +86,98 @@ export function MarkInput() {
                 {ss.selectedPapers.map((paper) => {
                   const markValue = ss.marks[paper.id]
                   const isOver = markValue !== undefined && markValue > paper.max_raw_mark
+                  const range = ss.ranges[paper.id]
+                  const questions = ss.questions[paper.id]
 
                   return (
-                    <div key={paper.id} className="flex items-end gap-4">
-                      <div className="flex-1">
-                        <Input
-                          label={paper.name}
-                          type="number"
-                          min={0}
-                          max={paper.max_raw_mark}
-                          value={markValue === undefined || markValue < 0 ? '' : markValue}
-                          onChange={(e) => {
-                            const val = e.target.value === '' ? -1 : parseInt(e.target.value, 10)
-                            setMark(ss.subject.id, paper.id, val)
-                          }}
-                          suffix={`/ ${paper.max_raw_mark}`}
-                          error={isOver ? `Maximum is ${paper.max_raw_mark}` : undefined}
-                          hint={`Weight: ${paper.weight_percentage}%`}
-                          placeholder="0"
-                        />
+                    <div key={paper.id}>
+                      <div className="flex items-end gap-4">
+                        <div className="flex-1">
+                          <Input
+                            label={paper.name}
+                            type="number"
+                            min={0}
+                            max={paper.max_raw_mark}
+                            value={markValue === undefined || markValue < 0 ? '' : markValue}
+                            onChange={(e) => {
+                              const val = e.target.value === '' ? -1 : parseInt(e.target.value, 10)
+                              setMark(ss.subject.id, paper.id, val)
+                            }}
+                            disabled={!!questions}
+                            suffix={`/ ${paper.max_raw_mark}`}
+                            error={isOver && !questions ? `Maximum is ${paper.max_raw_mark}` : undefined}
+                            hint={questions
+                              ? 'Total of the questions below'
+                              : paper.is_endorsement ? 'Endorsement — graded separately' : `Weight: ${paper.weight_percentage}%`}
+                            placeholder="0"
+                          />
+                        </div>
+
+                        {/* Normalised preview */}
+                        {markValue !== undefined && markValue >= 0 && !isOver && (
+                          <div
+                            className="pb-8 text-xs text-right w-16 flex-shrink-0"
+                            style={{ color: '#C9A96E', fontFamily: 'var(--font-sans)' }}
+                          >
+                            <div className="font-display text-sm">
+                              {((markValue / paper.max_raw_mark) * paper.weight_percentage).toFixed(1)}%
+                            </div>
+                            <div style={{ color: '#3D3D3D' }}>weighted</div>
+                          </div>
+                        )}
                       </div>
 
-                      {/* Normalised preview */}
-                      {markValue !== undefined && markValue >= 0 && !isOver && (
-                        <div
-                          className="pb-8 text-xs text-right w-16 flex-shrink-0"
-                          style={{ color: '#C9A96E', fontFamily: 'var(--font-sans)' }}
+                      <div className="mt-2 flex gap-4">
+                        {/* Optional uncertainty range */}
+                        <button
+                          onClick={() => {
+                            if (range) {
+                              setMarkRange(ss.subject.id, paper.id, null)
+                            } else {
+                              const known = markValue !== undefined && markValue >= 0 && !isOver
+                              setMarkRange(ss.subject.id, paper.id, known
+                                ? { low: Math.max(0, markValue - 5), high: Math.min(paper.max_raw_mark, markValue + 5) }
+                                : { low: 0, high: paper.max_raw_mark })
+                            }
+                          }}
+                          className="text-xs transition-colors cursor-pointer"
+                          style={{ color: range ? '#C9A96E' : '#555', fontFamily: 'var(--font-sans)' }}
                         >
-                          <div className="font-display text-sm">
-                            {((markValue / paper.max_raw_mark) * paper.weight_percentage).toFixed(1)}%
-                          </div>
-                          <div style={{ color: '#3D3D3D' }}>weighted</div>
+                          {range ? 'Remove range' : '+ Add a range'}
+                        </button>
+
+                        {/* Optional question-by-question entry */}
+                        <button
+                          onClick={() => setQuestions(ss.subject.id, paper.id, questions ? null : [{ question: '1', mark: -1 }])}
+                          className="text-xs transition-colors cursor-pointer"
+                          style={{ color: questions ? '#C9A96E' : '#555', fontFamily: 'var(--font-sans)' }}
+                        >
+                          {questions ? 'Enter the total instead' : '+ Enter by question'}
+                        </button>
+                      </div>
+
+                      {questions && (
+                        <QuestionBreakdown
+                          questions={questions}
+                          maxMark={paper.max_raw_mark}
+                          onChange={(rows) => setQuestions(ss.subject.id, paper.id, rows)}
+                        />
+                      )}
+
+                      {range && (
+                        <div className="mt-3 space-y-2">
+                          <RangeSlider
+                            label="Low"
+                            value={range.low}
+                            max={paper.max_raw_mark}
+                            onChange={(v) => setMarkRange(ss.subject.id, paper.id, { low: Math.min(v, range.high), high: range.high })}
+                          />
+                          <RangeSlider
+                            label="High"
+                            value={range.high}
+                            max={paper.max_raw_mark}
+                            onChange={(v) => setMarkRange(ss.subject.id, paper.id, { low: range.low, high: Math.max(v, range.low) })}
+                          />
                         </div>
                       )}
                     </div>
@@ -141,8 +224,12 @@ export function MarkInput() {
                       transition={{ duration: 0.4, ease: 'easeOut' }}
                     />
                   </div>
+
+                  <LiveGrade subject={ss} />
                 </div>
               )}
+
+              {targetMode && <TargetPanel subject={ss} />}
             </motion.div>
           )
         })}
@@ -164,3 +251,30 @@ export function MarkInput() {
     </div>
   )
 }
+
+interface RangeSliderProps {
+  label: string
+  value: number
+  max: number
+  onChange: (value: number) => void
+}
+
+function RangeSlider({ label, value, max, onChange }: RangeSliderProps) {
+  return (
+    <label className="flex items-center gap-3 text-xs" style={{ fontFamily: 'var(--font-sans)' }}>
+      <span className="w-10" style={{ color: '#555' }}>{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value, 10))}
+        className="flex-1 cursor-pointer"
+        style={{ accentColor: '#C9A96E' }}
+      />
+      <span className="w-14 text-right tabular-nums" style={{ color: '#F5F5F0' }}>
+        {value} <span style={{ color: '#555' }}>/ {max}</span>
+      </span>
+    </label>
+  )
+}
@@ -4,20 +4,43 @@ import { useEffect, useState } from 'react'
 import { motion } from 'framer-motion'
 import { useEstimate } from './EstimateContext'
 import { Button } from '@/components/ui'
-import type { Paper, Tier } from '@/types'
+import { inVersion, syllabusVersions, versionKey, versionLabel } from '@/lib/syllabus-versions'
+import type { Paper, SyllabusOption, SyllabusVersion, Tier } from '@/types'
 
 interface SubjectPapers {
   [subjectId: string]: Paper[]
 }
 
-function getAvailablePapers(papers: Paper[], hasTiers: boolean, tier: Tier | null): Paper[] {
-  if (hasTiers && tier) return papers.filter((p) => p.tier === tier)
+interface SubjectOptions {
+  [subjectId: string]: SyllabusOption[]
+}
+
+function getAvailablePapers(
+  papers: Paper[],
+  hasTiers: boolean,
+  tier: Tier | null,
+  option: string | null,
+  version: SyllabusVersion | null
+): Paper[] {
   if (hasTiers && !tier) return []
-  return papers
+  // Without a chosen version, students see the newest paper structure
+  const sat = version ?? syllabusVersions(papers)[0] ?? null
+  return papers.filter((p) =>
+    (!hasTiers || p.tier === tier) &&
+    (!option || !p.option_codes || p.option_codes.includes(option)) &&
+    inVersion(p, sat)
+  )
+}
+
+function optionLabel(o: SyllabusOption): string {
+  if (o.name) return o.name
+  return o.components.length > 0
+    ? `Option ${o.option_code} · components ${o.components.join(', ')}`
+    : `Option ${o.option_code}`
 }
 
 function getSubjectReadiness(selectedPaperIds: Set<string>, availablePapers: Paper[]) {
-  const compulsory = availablePapers.filter((p) => !p.paper_group)
+  const compulsory = availablePapers.filter((p) => !p.paper_group && !p.is_endorsement)
   const groups = [...new Set(availablePapers.filter((p) => p.paper_group).map((p) => p.paper_group!))]
 
   const required = compulsory.length + groups.length
@@ -31,21 +54,25 @@ function getSubjectReadiness(selectedPaperIds: Set<string>, availablePapers: Pap
 }
 
 export function PaperSelector() {
-  const { selectedSubjects, setTier, togglePaper, setStep } = useEstimate()
+  const { selectedSubjects, setTier, setOption, setVersion, togglePaper, setStep } = useEstimate()
   const [papersBySubject, setPapersBySubject] = useState<SubjectPapers>({})
+  const [optionsBySubject, setOptionsBySubject] = useState<SubjectOptions>({})
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
     async function fetchPapers() {
       const results: SubjectPapers = {}
+      const options: SubjectOptions = {}
       await Promise.all(
         selectedSubjects.map(async ({ subject }) => {
           const r = await fetch(`/api/subjects/${subject.syllabus_code}`)
           const data = await r.json()
           results[subject.id] = data.papers ?? []
+          options[subject.id] = data.options ?? []
         })
       )
       setPapersBySubject(results)
+      setOptionsBySubject(options)
       setLoading(false)
     }
     fetchPapers()
@@ -54,7 +81,7 @@ export function PaperSelector() {
   const canContinue = selectedSubjects.every((s) => {
     if (s.subject.has_tiers && !s.tier) return false
     const papers = papersBySubject[s.subject.id] ?? []
-    const available = getAvailablePapers(papers, s.subject.has_tiers, s.tier)
+    const available = getAvailablePapers(papers, s.subject.has_tiers, s.tier, s.option, s.version)
     const selectedIds = new Set(s.selectedPapers.map((p) => p.id))
     return getSubjectReadiness(selectedIds, available).complete
   })
@@ -90,11 +117,17 @@ export function PaperSelector() {
       <div className="space-y-5">
         {selectedSubjects.map((ss, i) => {
           const papers = papersBySubject[ss.subject.id] ?? []
-          const availablePapers = getAvailablePapers(papers, ss.subject.has_tiers, ss.tier)
+          const availablePapers = getAvailablePapers(papers, ss.subject.has_tiers, ss.tier, ss.option, ss.version)
+          const versions = syllabusVersions(papers)
+          const activeVersion = ss.version ?? versions[0] ?? null
+          const tierOptions = (optionsBySubject[ss.subject.id] ?? []).filter(
+            (o) => !ss.subject.has_tiers || o.tier === ss.tier
+          )
           const selectedIds = new Set(ss.selectedPapers.map((p) => p.id))
           const { required, satisfied, complete } = getSubjectReadiness(selectedIds, availablePapers)
 
-          const compulsoryPapers = availablePapers.filter((p) => !p.paper_group)
+          const compulsoryPapers = availablePapers.filter((p) => !p.paper_group && !p.is_endorsement)
+          const endorsementPapers = availablePapers.filter((p) => p.is_endorsement)
           const groups = [...new Set(availablePapers.filter((p) => p.paper_group).map((p) => p.paper_group!))]
 
           return (
@@ -135,6 +168,35 @@ export function PaperSelector() {
                 )}
               </div>
 
+              {/* Syllabus version — only when the paper structure has changed over the years */}
+              {versions.length > 1 && (
+                <div className="mb-5">
+                  <div className="text-xs uppercase tracking-widest mb-3" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
+                    Syllabus for exams
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {versions.map((v, vi) => {
+                      const active = activeVersion !== null && versionKey(activeVersion) === versionKey(v)
+                      return (
+                        <button
+                          key={versionKey(v)}
+                          onClick={() => setVersion(ss.subject.id, vi === 0 ? null : v)}
+                          className="px-3 py-2 text-xs rounded-sm border transition-all duration-200 cursor-pointer"
+                          style={{
+                            fontFamily: 'var(--font-sans)',
+                            background: active ? 'rgba(201,169,110,0.08)' : 'rgba(255,255,255,0.02)',
+                            borderColor: active ? 'rgba(201,169,110,0.5)' : '#2A2A2A',
+                            color: active ? '#C9A96E' : '#888',
+                          }}
+                        >
+                          {versionLabel(v)}
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Tier selection */}
               {ss.subject.has_tiers && (
                 <div className="mb-5">
@@ -164,6 +226,36 @@ export function PaperSelector() {
                 </div>
               )}
 
+              {/* Syllabus option — only when Cambridge publishes more than one */}
+              {tierOptions.length > 1 && (
+                <div className="mb-5">
+                  <div className="text-xs uppercase tracking-widest mb-3" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
+                    Option
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {tierOptions.map((o) => {
+                      const active = ss.option ? ss.option === o.option_code : o.is_default
+                      return (
+                        <button
+                          key={o.id}
+                          onClick={() => setOption(ss.subject.id, o.is_default ? null : o.option_code)}
+                          className="px-3 py-2 text-xs rounded-sm border transition-all duration-200 cursor-pointer"
+                          style={{
+                            fontFamily: 'var(--font-sans)',
+                            background: active ? 'rgba(201,169,110,0.08)' : 'rgba(255,255,255,0.02)',
+                            borderColor: active ? 'rgba(201,169,110,0.5)' : '#2A2A2A',
+                            color: active ? '#C9A96E' : '#888',
+                          }}
+                        >
+                          {optionLabel(o)}
+                          {o.is_default && <span className="ml-1.5" style={{ color: '#555' }}>(usual)</span>}
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Papers */}
               {availablePapers.length > 0 ? (
                 <div className="space-y-4">
@@ -229,6 +321,26 @@ export function PaperSelector() {
                       </div>
                     )
                   })}
+
+                  {/* Endorsement papers — graded separately, never required */}
+                  {endorsementPapers.length > 0 && (
+                    <div>
+                      <div className="text-xs uppercase tracking-widest mb-3" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
+                        Endorsement (optional)
+                      </div>
+                      <div className="space-y-2">
+                        {endorsementPapers.map((paper) => (
+                          <PaperButton
+                            key={paper.id}
+                            paper={paper}
+                            isSelected={selectedIds.has(paper.id)}
+                            isRadio={false}
+                            onClick={() => togglePaper(ss.subject.id, paper, availablePapers)}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               ) : ss.subject.has_tiers && !ss.tier ? (
                 <p className="text-sm py-3" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
@@ -284,7 +396,7 @@ function PaperButton({ paper, isSelected, isRadio, onClick }: PaperButtonProps)
           className="text-xs mt-0.5"
           style={{ color: isSelected ? 'rgba(201,169,110,0.6)' : '#555', fontFamily: 'var(--font-sans)' }}
         >
-          Max {paper.max_raw_mark} marks · {paper.weight_percentage}% weight
+          Max {paper.max_raw_mark} marks · {paper.is_endorsement ? 'graded separately' : `${paper.weight_percentage}% weight`}
         </div>
       </div>
       {/* Checkbox or radio indicator */}
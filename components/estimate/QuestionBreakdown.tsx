@@ -0,0 +1,77 @@
+'use client'
+
+import { breakdownError, questionTotal } from '@/lib/question-marks'
+import type { QuestionMark } from '@/types'
+
+interface QuestionBreakdownProps {
+  questions: QuestionMark[]
+  maxMark: number
+  onChange: (questions: QuestionMark[]) => void
+}
+
+const fieldClass =
+  'bg-surface border border-border rounded-sm px-2 py-1.5 text-text-primary placeholder-text-tertiary focus:outline-none focus:border-gold/50'
+
+/** The question after the last one listed: "4" after "3", otherwise the next row number. */
+function nextQuestion(questions: QuestionMark[]): string {
+  const last = parseInt(questions[questions.length - 1]?.question ?? '', 10)
+  return String(Number.isFinite(last) ? last + 1 : questions.length + 1)
+}
+
+/** Question-by-question entry for one paper; the total becomes the paper's mark. */
+export function QuestionBreakdown({ questions, maxMark, onChange }: QuestionBreakdownProps) {
+  const total = questionTotal(questions)
+  const error = breakdownError({ raw_mark: total, max_raw_mark: maxMark, questions })
+
+  function update(index: number, row: Partial<QuestionMark>) {
+    onChange(questions.map((q, i) => (i === index ? { ...q, ...row } : q)))
+  }
+
+  return (
+    <div className="mt-3 space-y-2 text-xs" style={{ fontFamily: 'var(--font-sans)' }}>
+      {questions.map((q, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <span className="w-4" style={{ color: '#555' }}>Q</span>
+          <input
+            type="text"
+            value={q.question}
+            onChange={(e) => update(i, { question: e.target.value })}
+            aria-label="Question number"
+            className={`${fieldClass} w-16`}
+          />
+          <input
+            type="number"
+            min={0}
+            value={q.mark < 0 ? '' : q.mark}
+            onChange={(e) => update(i, { mark: e.target.value === '' ? -1 : parseInt(e.target.value, 10) })}
+            aria-label={`Mark for question ${q.question}`}
+            placeholder="0"
+            className={`${fieldClass} w-20`}
+          />
+          <button
+            onClick={() => onChange(questions.filter((_, j) => j !== i))}
+            className="transition-colors cursor-pointer"
+            style={{ color: '#555' }}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => onChange([...questions, { question: nextQuestion(questions), mark: -1 }])}
+          className="transition-colors cursor-pointer"
+          style={{ color: '#C9A96E' }}
+        >
+          + Add question
+        </button>
+        <span className="tabular-nums" style={{ color: error ? '#CF6679' : '#888' }}>
+          Total {Math.max(total, 0)} / {maxMark}
+        </span>
+      </div>
+
+      {error && <p className="text-error">{error}</p>}
+    </div>
+  )
+}
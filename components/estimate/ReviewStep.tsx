@@ -146,7 +146,12 @@ export function ReviewStep() {
                 >
                   <span style={{ color: '#888' }}>{paper.name}</span>
                   <span style={{ color: '#F5F5F0' }}>
-                    {ss.marks[paper.id] ?? '—'} / {paper.max_raw_mark}
+                    {(ss.marks[paper.id] ?? -1) < 0 ? '—' : ss.marks[paper.id]} / {paper.max_raw_mark}
+                    {ss.ranges[paper.id] && (
+                      <span className="ml-2 text-xs" style={{ color: '#888' }}>
+                        range {ss.ranges[paper.id].low}–{ss.ranges[paper.id].high}
+                      </span>
+                    )}
                     <span className="ml-2 text-xs" style={{ color: '#555' }}>
                       ({paper.weight_percentage}%)
                     </span>
@@ -0,0 +1,130 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toEntry, useEstimate, type SelectedSubject } from './EstimateContext'
+import { gradesFor } from '@/lib/grades'
+import type { ReverseResult } from '@/types'
+
+interface TargetPanelProps {
+  subject: SelectedSubject
+}
+
+/**
+ * Target mode for one subject: pick a grade and see the raw mark needed on
+ * each paper left blank, given the marks already entered.
+ */
+export function TargetPanel({ subject: ss }: TargetPanelProps) {
+  const { setTarget, season } = useEstimate()
+  const [result, setResult] = useState<ReverseResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Re-run whenever the target or any entered mark changes (debounced while typing)
+  useEffect(() => {
+    if (!ss.target) {
+      setResult(null)
+      return
+    }
+
+    const entry = toEntry(ss)
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch('/api/estimate/reverse', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ entries: [{ ...entry, target_grade: ss.target }], season }),
+          signal: controller.signal,
+        })
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error ?? 'Could not work out the marks needed')
+        setResult(data.entries[0])
+        setError(null)
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') setError((err as Error).message)
+      }
+    }, 400)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [ss, season])
+
+  return (
+    <div className="mt-5 pt-4" style={{ borderTop: '1px solid #1E1E1E', fontFamily: 'var(--font-sans)' }}>
+      <div className="text-xs uppercase tracking-widest mb-3" style={{ color: '#555' }}>
+        Target grade
+      </div>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {gradesFor(ss.subject.grading_scale).map((g) => {
+          const active = ss.target === g
+          return (
+            <button
+              key={g}
+              onClick={() => setTarget(ss.subject.id, active ? null : g)}
+              className="min-w-9 px-1.5 py-1.5 rounded-sm border text-xs transition-colors cursor-pointer"
+              style={{
+                color: active ? '#0C0C0C' : '#A8A8A8',
+                background: active ? '#C9A96E' : 'transparent',
+                borderColor: active ? '#C9A96E' : '#2A2A2A',
+              }}
+            >
+              {g}
+            </button>
+          )
+        })}
+      </div>
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      {ss.target && result && !error && <TargetSummary result={result} />}
+    </div>
+  )
+}
+
+function TargetSummary({ result }: { result: ReverseResult }) {
+  if (result.target_pct === null) {
+    return (
+      <p className="text-xs" style={{ color: '#555' }}>
+        No boundary data for {result.target_grade} in this subject yet.
+      </p>
+    )
+  }
+
+  if (result.already_secured) {
+    return (
+      <p className="text-xs" style={{ color: '#C9A96E' }}>
+        Your entered marks already clear the {result.target_grade} boundary (~{result.target_pct.toFixed(1)}%).
+      </p>
+    )
+  }
+
+  if (result.remaining_papers.length === 0) {
+    return (
+      <p className="text-xs" style={{ color: '#555' }}>
+        Leave the papers you haven&apos;t sat blank to see what you need on them.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs mb-2" style={{ color: '#555' }}>
+        {result.target_grade} needs about {result.target_pct.toFixed(1)}% overall.
+        {result.achievable
+          ? ' On each remaining paper you need:'
+          : ' That is out of reach even with full marks on the remaining papers.'}
+      </p>
+      {result.remaining_papers.map((p) => (
+        <div key={p.paper_id} className="flex items-center justify-between text-xs">
+          <span style={{ color: '#888' }}>{p.paper_name}</span>
+          <span className="tabular-nums" style={{ color: result.achievable ? '#F5F5F0' : '#555' }}>
+            {Math.min(p.needed_raw, p.max_raw_mark)}
+            <span style={{ color: '#555' }}> / {p.max_raw_mark}</span>
+            <span className="ml-2" style={{ color: '#3D3D3D' }}>{p.needed_pct.toFixed(0)}%</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
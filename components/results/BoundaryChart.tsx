@@ -16,13 +16,8 @@ interface BoundaryChartProps {
   userPct: number
 }
 
-const GRADE_COLORS: Record<string, string> = {
-  'A*': '#C9A96E',
-  'A':  '#B8C9A9',
-  'B':  '#A9B8C9',
-  'C':  '#C9B8A9',
-  'D':  '#888888',
-}
+// Line colours for the top four grades, best first (A*–C, or 9–6 on the 9–1 scale)
+const LINE_COLORS = ['#C9A96E', '#B8C9A9', '#A9B8C9', '#C9B8A9']
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function CustomTooltip({ active, payload, label }: any) {
@@ -45,19 +40,36 @@ function CustomTooltip({ active, payload, label }: any) {
   )
 }
 
+type SeriesPoint = GradeThresholdSummary['year_data'][number]
+
+/** "MJ 2024", or just the year for data saved before seasons were recorded. */
+function seriesLabel(d: SeriesPoint): string {
+  return d.season ? `${d.season} ${d.year}` : String(d.year)
+}
+
+const SEASON_RANK: Record<string, number> = { FM: 0, MJ: 1, ON: 2 }
+
+function seriesOrder(points: SeriesPoint[], label: string): number {
+  const d = points.find((p) => seriesLabel(p) === label)
+  return d ? d.year * 3 + (d.season ? SEASON_RANK[d.season] : 0) : 0
+}
+
 export function BoundaryChart({ thresholds, userPct }: BoundaryChartProps) {
-  // Build chart data — x-axis = year, y-axis = boundary percentage per grade
-  const topGrades = thresholds.filter((t) => ['A*', 'A', 'B', 'C'].includes(t.grade))
+  // Build chart data — x-axis = series, y-axis = boundary percentage per grade
+  // Thresholds are ordered best grade first
+  const topGrades = thresholds.slice(0, LINE_COLORS.length)
 
-  // Collect all years
-  const years = Array.from(
-    new Set(topGrades.flatMap((t) => t.year_data.map((d) => d.year)))
-  ).sort()
+  // Collect all series in chronological order
+  const allPoints = topGrades.flatMap((t) => t.year_data)
+  const seasons = Array.from(new Set(allPoints.map((d) => d.season).filter(Boolean)))
+  const series = Array.from(new Set(allPoints.map(seriesLabel))).sort(
+    (a, b) => seriesOrder(allPoints, a) - seriesOrder(allPoints, b)
+  )
 
-  const chartData = years.map((year) => {
-    const point: Record<string, number | string> = { year }
+  const chartData = series.map((label) => {
+    const point: Record<string, number | string> = { series: label }
     for (const t of topGrades) {
-      const yd = t.year_data.find((d) => d.year === year)
+      const yd = t.year_data.find((d) => seriesLabel(d) === label)
       if (yd) point[t.grade] = yd.pct
     }
     return point
@@ -74,13 +86,13 @@ export function BoundaryChart({ thresholds, userPct }: BoundaryChartProps) {
   return (
     <div>
       <div className="text-xs uppercase tracking-widest mb-4" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
-        Grade boundary trends (FM series)
+        Grade boundary trends ({seasons.length > 0 ? seasons.join(' + ') : 'FM'} series)
       </div>
       <ResponsiveContainer width="100%" height={200}>
         <LineChart data={chartData} margin={{ top: 4, right: 4, bottom: 4, left: -20 }}>
           <CartesianGrid strokeDasharray="3 3" stroke="#1E1E1E" />
           <XAxis
-            dataKey="year"
+            dataKey="series"
             tick={{ fill: '#555', fontSize: 11, fontFamily: 'var(--font-sans)' }}
             axisLine={{ stroke: '#2A2A2A' }}
             tickLine={false}
@@ -106,14 +118,14 @@ export function BoundaryChart({ thresholds, userPct }: BoundaryChartProps) {
             />
           )}
 
-          {topGrades.map((t) => (
+          {topGrades.map((t, i) => (
             <Line
               key={t.grade}
               type="monotone"
               dataKey={t.grade}
-              stroke={GRADE_COLORS[t.grade] ?? '#555'}
+              stroke={LINE_COLORS[i]}
               strokeWidth={1.5}
-              dot={{ r: 3, fill: GRADE_COLORS[t.grade] ?? '#555', strokeWidth: 0 }}
+              dot={{ r: 3, fill: LINE_COLORS[i], strokeWidth: 0 }}
               activeDot={{ r: 4 }}
             />
           ))}
@@ -122,9 +134,9 @@ export function BoundaryChart({ thresholds, userPct }: BoundaryChartProps) {
 
       {/* Legend */}
       <div className="flex items-center gap-4 mt-3">
-        {topGrades.map((t) => (
+        {topGrades.map((t, i) => (
           <div key={t.grade} className="flex items-center gap-1.5 text-xs" style={{ fontFamily: 'var(--font-sans)' }}>
-            <div className="w-3 h-0.5" style={{ background: GRADE_COLORS[t.grade] }} />
+            <div className="w-3 h-0.5" style={{ background: LINE_COLORS[i] }} />
             <span style={{ color: '#888' }}>{t.grade}</span>
           </div>
         ))}
@@ -4,13 +4,20 @@ import { useState } from 'react'
 import { motion } from 'framer-motion'
 import { GradeBadge } from '@/components/ui'
 import { BoundaryChart } from './BoundaryChart'
-import type { SubjectEstimateResult } from '@/types'
+import { TradeOffChart } from './TradeOffChart'
+import { SensitivityPanel } from './SensitivityPanel'
+import { compareGrades, letterEquivalent } from '@/lib/grades'
+import { versionLabel } from '@/lib/syllabus-versions'
+import type { Season, SubjectEstimateInput, SubjectEstimateResult } from '@/types'
 
 interface GradeCardProps {
   result: SubjectEstimateResult
   index: number
+  entry?: SubjectEstimateInput // marks entered; enables the trade-off chart for unsat papers
+  season?: Season // session the estimate was calculated for
 }
 
+// Keyed by letter grade; 9–1 grades use the label of the letter grade they align with
 const GRADE_LABELS: Record<string, string> = {
   'A*': 'Outstanding',
   'A':  'Excellent',
@@ -23,13 +30,66 @@ const GRADE_LABELS: Record<string, string> = {
   'U':  'Ungraded',
 }
 
-export function GradeCard({ result, index }: GradeCardProps) {
+/** "72% chance of A, 25% B, 3% A*" — most likely grade first. */
+function describeOutcomes(result: SubjectEstimateResult): string | null {
+  const outcomes = [...(result.grade_probabilities ?? [])]
+    .sort((a, b) => b.probability - a.probability)
+    .map((p) => ({ grade: p.grade, pct: Math.round(p.probability * 100) }))
+    .filter((p) => p.pct > 0)
+
+  if (outcomes.length === 0) return null
+
+  return outcomes
+    .map((o, i) => (i === 0 ? `${o.pct}% chance of ${o.grade}` : `${o.pct}% ${o.grade}`))
+    .join(', ')
+}
+
+/** "FM 2021–2025 and MJ 2024–2025" — the series behind a boundary, grouped by season. */
+function describeSeries(yearData: SubjectEstimateResult['thresholds'][number]['year_data']): string {
+  const bySeason: Record<string, number[]> = {}
+  for (const d of yearData) {
+    const key = d.season ?? ''
+    if (!bySeason[key]) bySeason[key] = []
+    bySeason[key].push(d.year)
+  }
+
+  return Object.entries(bySeason)
+    .map(([season, years]) => {
+      const first = Math.min(...years)
+      const last = Math.max(...years)
+      const span = first === last ? `${first}` : `${first}–${last}`
+      return season ? `${season} ${span}` : span
+    })
+    .join(' and ')
+}
+
+/** Contributing series with a recorded Cambridge document, newest first. */
+function seriesSources(yearData: SubjectEstimateResult['thresholds'][number]['year_data']) {
+  return yearData
+    .filter((d): d is typeof d & { source_url: string } => !!d.source_url)
+    .sort((a, b) => b.year - a.year)
+}
+
+export function GradeCard({ result, index, entry, season = 'MJ' }: GradeCardProps) {
   const [showChart, setShowChart] = useState(false)
 
   const estimatedThreshold = result.thresholds.find(
     (t) => t.grade === result.estimated_grade
   )
 
+  const outcomes = describeOutcomes(result)
+  const contributingSeries = estimatedThreshold ? describeSeries(estimatedThreshold.year_data) : null
+  const sources = estimatedThreshold ? seriesSources(estimatedThreshold.year_data) : []
+  const band = result.grade_band
+
+  // Results saved before per-paper grading have no paper_results
+  const paperResults = result.paper_results ?? []
+  const weakestPaperId = paperResults.length > 1
+    ? [...paperResults].sort(
+        (a, b) => compareGrades(b.estimated_grade ?? 'U', a.estimated_grade ?? 'U') || a.pct - b.pct
+      )[0].paper_id
+    : null
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 16 }}
@@ -47,13 +107,17 @@ export function GradeCard({ result, index }: GradeCardProps) {
         <div>
           <div className="text-xs tracking-wider mb-1" style={{ color: '#C9A96E', fontFamily: 'var(--font-sans)' }}>
             {result.subject_code}{result.tier_selected ? ` · ${result.tier_selected}` : ''}
+            {result.option_code ? ` · Option ${result.option_code}` : ''}
+            {result.syllabus_version ? ` · ${versionLabel(result.syllabus_version)} syllabus` : ''}
           </div>
           <h3 className="font-display text-2xl font-light" style={{ color: '#F5F5F0' }}>
             {result.subject_name}
           </h3>
           {result.estimated_grade && (
             <div className="mt-1 text-xs" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
-              {GRADE_LABELS[result.estimated_grade]}
+              {result.grade_pair
+                ? `Double award · ${result.grade_pair.map((g) => GRADE_LABELS[g]).join(' / ')}`
+                : GRADE_LABELS[letterEquivalent(result.estimated_grade)]}
             </div>
           )}
         </div>
@@ -72,6 +136,33 @@ export function GradeCard({ result, index }: GradeCardProps) {
         </div>
       </div>
 
+      {/* Grade likelihoods */}
+      {outcomes && (
+        <p className="text-sm mb-5" style={{ color: '#A8A8A8', fontFamily: 'var(--font-sans)' }}>
+          {outcomes}
+        </p>
+      )}
+
+      {/* Best / worst case band */}
+      {band && (band.worst !== band.expected || band.best !== band.expected) && (
+        <div className="flex items-center gap-4 mb-5 text-xs" style={{ fontFamily: 'var(--font-sans)' }}>
+          <span style={{ color: '#555' }}>
+            Worst case <span style={{ color: '#F5F5F0' }}>{band.worst ?? 'U'}</span>
+          </span>
+          <span style={{ color: '#555' }}>
+            Expected <span style={{ color: '#C9A96E' }}>{band.expected ?? 'U'}</span>
+          </span>
+          <span style={{ color: '#555' }}>
+            Best case <span style={{ color: '#F5F5F0' }}>{band.best ?? 'U'}</span>
+          </span>
+          {band.low_pct !== band.high_pct && (
+            <span className="tabular-nums" style={{ color: '#3D3D3D' }}>
+              {band.low_pct.toFixed(1)}–{band.high_pct.toFixed(1)}%
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Threshold bars */}
       <div className="space-y-2 mb-5">
         {result.thresholds.slice(0, 4).map((t) => {
@@ -130,13 +221,84 @@ export function GradeCard({ result, index }: GradeCardProps) {
         </div>
       </div>
 
+      {/* Per-paper grades */}
+      {paperResults.length > 1 && (
+        <div className="mb-5 pt-4 space-y-1.5" style={{ borderTop: '1px solid #1E1E1E' }}>
+          <div className="text-xs uppercase tracking-widest mb-2" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
+            By paper
+          </div>
+          {paperResults.map((p) => {
+            const isWeakest = p.paper_id === weakestPaperId
+            return (
+              <div
+                key={p.paper_id}
+                className="flex items-center justify-between text-xs"
+                style={{ fontFamily: 'var(--font-sans)' }}
+              >
+                <span style={{ color: isWeakest ? '#C9A96E' : '#888' }}>
+                  {p.paper_name}
+                  {isWeakest && <span className="ml-2" style={{ color: '#555' }}>weakest</span>}
+                </span>
+                <span className="flex items-center gap-3">
+                  <span className="tabular-nums" style={{ color: '#555' }}>{p.pct.toFixed(1)}%</span>
+                  <span className="w-6 text-right font-medium" style={{ color: isWeakest ? '#C9A96E' : '#F5F5F0' }}>
+                    {p.estimated_grade ?? '—'}
+                  </span>
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Marks to the next grade / before dropping, per paper */}
+      <SensitivityPanel sensitivity={result.sensitivity ?? []} />
+
+      {/* Endorsement — reported alongside, never part of the grade */}
+      {result.endorsement && (
+        <div
+          className="flex items-center justify-between text-xs mb-4 pt-4"
+          style={{ borderTop: '1px solid #1E1E1E', fontFamily: 'var(--font-sans)' }}
+        >
+          <span style={{ color: '#888' }}>
+            {result.endorsement.paper_name}
+            <span className="ml-2" style={{ color: '#555' }}>
+              {result.endorsement.raw_mark} / {result.endorsement.max_raw_mark}
+            </span>
+          </span>
+          <span className="font-medium" style={{ color: result.endorsement.grade && result.endorsement.grade !== 'Ungraded' ? '#C9A96E' : '#555' }}>
+            {result.endorsement.grade ?? 'No boundary data'}
+          </span>
+        </div>
+      )}
+
       {/* Confidence note */}
       {estimatedThreshold && (
         <p className="text-xs mb-4" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
-          {result.estimated_grade} boundary has ranged {estimatedThreshold.min_pct.toFixed(1)}–{estimatedThreshold.max_pct.toFixed(1)}% over the past 5 FM series.
+          {result.estimated_grade} boundary has ranged {estimatedThreshold.min_pct.toFixed(1)}–{estimatedThreshold.max_pct.toFixed(1)}% over {contributingSeries}.
           {result.weighted_total_pct < estimatedThreshold.max_pct
             ? ' Your score may not reach this grade in some years.'
             : ' Your score exceeds the highest recorded boundary.'}
+          {sources.length > 0 && (
+            <>
+              {' '}Source:{' '}
+              {sources.map((d, i) => (
+                <span key={`${d.season}-${d.year}`}>
+                  {i > 0 && ' · '}
+                  <a
+                    href={d.source_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline underline-offset-2 hover:opacity-80"
+                    style={{ color: '#888' }}
+                  >
+                    {d.season} {d.year}
+                  </a>
+                </span>
+              ))}
+              {' '}grade threshold tables.
+            </>
+          )}
         </p>
       )}
 
@@ -146,6 +308,13 @@ export function GradeCard({ result, index }: GradeCardProps) {
         </p>
       )}
 
+      {/* Trade-off between papers still to sit */}
+      {entry && entry.paper_marks.filter((pm) => pm.raw_mark < 0 && !pm.is_endorsement).length > 1 && (
+        <div className="mb-5 pt-4" style={{ borderTop: '1px solid #1E1E1E' }}>
+          <TradeOffChart result={result} entry={entry} season={season} />
+        </div>
+      )}
+
       {/* Chart toggle */}
       <button
         onClick={() => setShowChart(!showChart)}
@@ -0,0 +1,58 @@
+'use client'
+
+import type { PaperSensitivity } from '@/types'
+
+interface SensitivityPanelProps {
+  sensitivity: PaperSensitivity[]
+}
+
+/**
+ * Per paper: marks needed to reach the next grade and marks that can be lost
+ * before dropping one. The paper needing the fewest extra marks is highlighted
+ * — that is where revision pays off most.
+ */
+export function SensitivityPanel({ sensitivity }: SensitivityPanelProps) {
+  if (sensitivity.length === 0) return null
+
+  const nextGrade = sensitivity[0].next_grade
+  const lowerGrade = sensitivity[0].lower_grade
+  const reachable = sensitivity.filter((s) => s.marks_to_next !== null)
+  const bestPaperId = reachable.length > 0
+    ? [...reachable].sort((a, b) => a.marks_to_next! - b.marks_to_next!)[0].paper_id
+    : null
+
+  return (
+    <div className="mb-5 pt-4 space-y-1.5" style={{ borderTop: '1px solid #1E1E1E', fontFamily: 'var(--font-sans)' }}>
+      <div className="flex items-center justify-between text-xs uppercase tracking-widest mb-2" style={{ color: '#555' }}>
+        <span>Where marks count</span>
+        <span className="normal-case tracking-normal" style={{ color: '#3D3D3D' }}>
+          {nextGrade ? `to ${nextGrade}` : 'top grade'}
+          {lowerGrade ? ` · before ${lowerGrade}` : ''}
+        </span>
+      </div>
+      {sensitivity.map((s) => {
+        const isBest = s.paper_id === bestPaperId
+        return (
+          <div key={s.paper_id} className="flex items-center justify-between text-xs">
+            <span style={{ color: isBest ? '#C9A96E' : '#888' }}>
+              {s.paper_name}
+              {isBest && <span className="ml-2" style={{ color: '#555' }}>best payoff</span>}
+            </span>
+            <span className="flex items-center gap-4 tabular-nums">
+              {nextGrade && (
+                <span style={{ color: s.marks_to_next !== null ? '#F5F5F0' : '#3D3D3D' }}>
+                  {s.marks_to_next !== null ? `+${s.marks_to_next}` : 'out of reach'}
+                </span>
+              )}
+              {lowerGrade && (
+                <span className="w-20 text-right" style={{ color: '#555' }}>
+                  {s.marks_to_drop !== null ? `can lose ${s.marks_to_drop}` : 'safe'}
+                </span>
+              )}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceDot,
+  ResponsiveContainer,
+  type TooltipContentProps,
+} from 'recharts'
+import { tradeOffCurve, type SolverPaper, type TradeOffPoint } from '@/lib/calculation/solver'
+import type { Grade, ReverseResult, Season, SubjectEstimateInput, SubjectEstimateResult } from '@/types'
+
+interface TradeOffChartProps {
+  result: SubjectEstimateResult
+  entry: SubjectEstimateInput
+  season: Season
+}
+
+// recharts 3 passes active/payload through TooltipContentProps; TooltipProps leaves them out
+type TradeOffTooltipProps = Partial<TooltipContentProps<number, string>> & { papers: SolverPaper[] }
+
+function CustomTooltip({ active, payload, papers }: TradeOffTooltipProps) {
+  if (!active || !payload?.length) return null
+  const point: TradeOffPoint = payload[0].payload
+
+  return (
+    <div
+      className="rounded-sm p-3 text-xs"
+      style={{ background: '#1A1A1A', border: '1px solid #2A2A2A', fontFamily: 'var(--font-sans)' }}
+    >
+      {point.rest_pct === null ? (
+        <div style={{ color: '#888' }}>Out of reach with {point.focus_mark} here</div>
+      ) : (
+        papers.map((p) => (
+          <div key={p.paper_id} className="flex items-center justify-between gap-4">
+            <span style={{ color: '#A8A8A8' }}>{p.paper_name}</span>
+            <span className="tabular-nums" style={{ color: '#F5F5F0' }}>
+              {point.marks[p.paper_id]} / {p.max_raw_mark}
+            </span>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
+
+/**
+ * Trade-off between the papers still to sit: for each mark on one paper, the
+ * % needed on each of the others to reach the chosen target grade. The banked
+ * and target totals come from /api/estimate/reverse, so UMS papers are
+ * converted exactly as in target mode.
+ */
+export function TradeOffChart({ result, entry, season }: TradeOffChartProps) {
+  const grades = result.thresholds.map((t) => t.grade)
+  const estimatedIndex = result.estimated_grade ? grades.indexOf(result.estimated_grade) : grades.length
+  // Default to one grade above the current estimate
+  const [target, setTarget] = useState<Grade | undefined>(grades[Math.max(estimatedIndex - 1, 0)])
+
+  const counted = entry.paper_marks.filter((pm) => pm.max_raw_mark > 0 && !pm.is_endorsement)
+  const remaining: SolverPaper[] = counted.filter((pm) => pm.raw_mark < 0)
+  const [focusId, setFocusId] = useState(remaining[0]?.paper_id)
+  const [reverse, setReverse] = useState<ReverseResult | null>(null)
+
+  useEffect(() => {
+    if (!target) return
+
+    const controller = new AbortController()
+    fetch('/api/estimate/reverse', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ entries: [{ ...entry, target_grade: target }], season }),
+      signal: controller.signal,
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setReverse(data?.entries[0] ?? null))
+      .catch(() => {
+        // Aborted by a newer target, or no chart this time
+      })
+
+    return () => controller.abort()
+  }, [entry, target, season])
+
+  // Ignore a response still held for the previous target
+  const current = reverse?.target_grade === target ? reverse : null
+  const targetWeighted = current?.target_weighted ?? null
+  const curve = current && targetWeighted !== null && focusId
+    ? tradeOffCurve(remaining, focusId, current.banked_weighted, targetWeighted)
+    : []
+  const solution = current?.solution ?? null
+
+  if (remaining.length < 2 || grades.length === 0) return null
+
+  const focus = remaining.find((p) => p.paper_id === focusId)
+  const balancedFocus = solution?.balanced?.[focusId ?? '']
+  const balancedPoint = curve.find((p) => p.focus_mark === balancedFocus)
+
+  return (
+    <div>
+      <div className="text-xs uppercase tracking-widest mb-3" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
+        What you need on the papers left
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs" style={{ fontFamily: 'var(--font-sans)' }}>
+        <span style={{ color: '#555' }}>Target</span>
+        {grades.map((g) => (
+          <button
+            key={g}
+            onClick={() => setTarget(g)}
+            className="px-2 py-1 rounded-sm border transition-colors cursor-pointer"
+            style={{
+              color: g === target ? '#C9A96E' : '#888',
+              borderColor: g === target ? 'rgba(201,169,110,0.4)' : '#2A2A2A',
+            }}
+          >
+            {g}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs" style={{ fontFamily: 'var(--font-sans)' }}>
+        <span style={{ color: '#555' }}>Vary</span>
+        {remaining.map((p) => (
+          <button
+            key={p.paper_id}
+            onClick={() => setFocusId(p.paper_id)}
+            className="px-2 py-1 rounded-sm border transition-colors cursor-pointer"
+            style={{
+              color: p.paper_id === focusId ? '#C9A96E' : '#888',
+              borderColor: p.paper_id === focusId ? 'rgba(201,169,110,0.4)' : '#2A2A2A',
+            }}
+          >
+            {p.paper_name}
+          </button>
+        ))}
+      </div>
+
+      {!current ? null : current.already_secured ? (
+        <p className="text-xs" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
+          Your entered marks already secure {target}.
+        </p>
+      ) : !solution?.achievable ? (
+        <p className="text-xs" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
+          {target} is out of reach even with full marks on every remaining paper.
+        </p>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={200}>
+            <LineChart data={curve} margin={{ top: 4, right: 4, bottom: 4, left: -20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1E1E1E" />
+              <XAxis
+                dataKey="focus_mark"
+                type="number"
+                domain={[0, focus?.max_raw_mark ?? 'auto']}
+                tick={{ fill: '#555', fontSize: 11, fontFamily: 'var(--font-sans)' }}
+                axisLine={{ stroke: '#2A2A2A' }}
+                tickLine={false}
+              />
+              <YAxis
+                domain={[0, 100]}
+                tick={{ fill: '#555', fontSize: 11, fontFamily: 'var(--font-sans)' }}
+                axisLine={false}
+                tickLine={false}
+                tickFormatter={(v) => `${v}%`}
+              />
+              <Tooltip content={<CustomTooltip papers={remaining} />} />
+              <Line
+                type="monotone"
+                dataKey="rest_pct"
+                stroke="#C9A96E"
+                strokeWidth={1.5}
+                dot={false}
+                activeDot={{ r: 4 }}
+                connectNulls={false}
+              />
+              {balancedPoint?.rest_pct != null && (
+                <ReferenceDot
+                  x={balancedPoint.focus_mark}
+                  y={balancedPoint.rest_pct}
+                  r={4}
+                  fill="#F5F5F0"
+                  stroke="none"
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+
+          <p className="mt-3 text-xs" style={{ color: '#555', fontFamily: 'var(--font-sans)' }}>
+            x: marks on {focus?.paper_name} · y: % needed on each other paper.
+            {solution.balanced && (
+              <>
+                {' '}Balanced:{' '}
+                <span style={{ color: '#F5F5F0' }}>
+                  {remaining.map((p) => `${solution.balanced![p.paper_id]}/${p.max_raw_mark}`).join(' · ')}
+                </span>
+              </>
+            )}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
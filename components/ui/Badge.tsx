@@ -1,4 +1,5 @@
-import { Grade } from '@/types'
+import { Grade, LetterGrade } from '@/types'
+import { letterEquivalent, splitDoubleGrade } from '@/lib/grades'
 
 interface BadgeProps {
   children: React.ReactNode
@@ -8,7 +9,8 @@ interface BadgeProps {
   className?: string
 }
 
-const gradeStyles: Record<Grade, string> = {
+// 9–1 grades are styled as the letter grade they align with (see letterEquivalent)
+const gradeStyles: Record<LetterGrade | 'U', string> = {
   'A*': 'bg-[#C9A96E20] text-gold border-gold/30',
   'A':  'bg-[#B8C9A920] text-[#B8C9A9] border-[#B8C9A9]/30',
   'B':  'bg-[#A9B8C920] text-[#A9B8C9] border-[#A9B8C9]/30',
@@ -37,7 +39,7 @@ export function Badge({
 
   let variantClass = ''
   if (variant === 'grade' && grade) {
-    variantClass = gradeStyles[grade]
+    variantClass = gradeStyles[letterEquivalent(grade)]
   } else if (variant === 'gold') {
     variantClass = 'bg-gold/10 text-gold border-gold/20'
   } else if (variant === 'subtle') {
@@ -58,21 +60,38 @@ export function Badge({
   )
 }
 
-// Large grade display for results
+// Large grade display for results; a double award shows both grades side by side
 export function GradeBadge({ grade }: { grade: Grade | null }) {
   if (!grade) return null
 
+  const pair = splitDoubleGrade(grade)
+  if (pair) {
+    return (
+      <div className="inline-flex gap-1.5">
+        {pair.map((g, i) => (
+          <GradeBox key={i} grade={g} />
+        ))}
+      </div>
+    )
+  }
+
+  return <GradeBox grade={grade} />
+}
+
+function GradeBox({ grade }: { grade: Grade }) {
+  const letter = letterEquivalent(grade)
+
   return (
     <div
       className={[
         'inline-flex items-center justify-center w-16 h-16 rounded-sm border-2 font-display text-3xl font-light',
-        grade === 'A*'
+        letter === 'A*'
           ? 'border-gold text-gold bg-gold/5'
-          : grade === 'A'
+          : letter === 'A'
           ? 'border-[#B8C9A9] text-[#B8C9A9] bg-[#B8C9A9]/5'
-          : grade === 'B'
+          : letter === 'B'
           ? 'border-[#A9B8C9] text-[#A9B8C9] bg-[#A9B8C9]/5'
-          : grade === 'C'
+          : letter === 'C'
           ? 'border-[#C9B8A9] text-[#C9B8A9] bg-[#C9B8A9]/5'
           : 'border-border text-text-secondary bg-surface',
       ]
@@ -0,0 +1,37 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Grade } from '@/types'
+import { compareGrades, letterEquivalent, splitDoubleGrade } from '@/lib/grades'
+
+describe('splitDoubleGrade', () => {
+  test('splits a double-award grade into its two letters', () => {
+    assert.deepEqual(splitDoubleGrade('A*A*'), ['A*', 'A*'])
+    assert.deepEqual(splitDoubleGrade('A*A'), ['A*', 'A'])
+    assert.deepEqual(splitDoubleGrade('AB'), ['A', 'B'])
+    assert.deepEqual(splitDoubleGrade('FG'), ['F', 'G'])
+  })
+
+  test('is null for single-award grades and no grade', () => {
+    assert.equal(splitDoubleGrade('A*'), null)
+    assert.equal(splitDoubleGrade('7'), null)
+    assert.equal(splitDoubleGrade('U'), null)
+    assert.equal(splitDoubleGrade(null), null)
+  })
+})
+
+describe('letterEquivalent', () => {
+  test('maps 9–1 grades and double awards onto A*–G', () => {
+    assert.equal(letterEquivalent('7'), 'A')
+    assert.equal(letterEquivalent('4'), 'C')
+    assert.equal(letterEquivalent('A*A'), 'A*')
+    assert.equal(letterEquivalent('U'), 'U')
+  })
+})
+
+describe('compareGrades', () => {
+  test('orders grades best first across scales, U last', () => {
+    assert.deepEqual((['U', 'B', 'A*', 'C'] as Grade[]).sort(compareGrades), ['A*', 'B', 'C', 'U'])
+    assert.ok(compareGrades('9', '1') < 0)
+    assert.ok(compareGrades('A*A*', 'GG') < 0)
+  })
+})
@@ -1,82 +1,261 @@
-import type { Grade, GradeThresholdSummary, Tier } from '@/types'
+import type {
+  EndorsementGrade,
+  EndorsementThresholdSummary,
+  ForecastStrategy,
+  Grade,
+  GradeThresholdSummary,
+  GradingScale,
+  PoolingMode,
+  Season,
+  SeasonWeights,
+  SyllabusVersion,
+  Tier,
+} from '@/types'
+import { gradesFor } from '@/lib/grades'
+import type { ThresholdRepository } from '@/lib/data/repositories'
+import { DEFAULT_FORECAST_STRATEGY, backtestForecast, forecastBoundary, seriesTime } from './forecast'
 
-const GRADE_ORDER: Grade[] = ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G']
+const ENDORSEMENT_ORDER: Exclude<EndorsementGrade, 'Ungraded'>[] = ['Distinction', 'Merit', 'Pass']
+const SEASONS: Season[] = ['FM', 'MJ', 'ON']
+
+// Weight given to other seasons' boundaries when pooling, unless overridden
+const DEFAULT_OTHER_SEASON_WEIGHT = 0.5
+
+const POOLING_MODES: PoolingMode[] = ['none', 'fallback', 'blend']
+
+export function isPoolingMode(value: unknown): value is PoolingMode {
+  return typeof value === 'string' && POOLING_MODES.includes(value as PoolingMode)
+}
+
+export function isSeason(value: unknown): value is Season {
+  return typeof value === 'string' && SEASONS.includes(value as Season)
+}
+
+/** Known seasons only, each weighted by a finite number ≥ 0. */
+export function isSeasonWeights(value: unknown): value is SeasonWeights {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  return Object.entries(value).every(
+    ([season, weight]) => isSeason(season) && typeof weight === 'number' && Number.isFinite(weight) && weight >= 0
+  )
+}
+
+/** Parses "FM:1,MJ:0.5" into season weights; returns null on malformed input. */
+export function parseSeasonWeights(value: string): SeasonWeights | null {
+  const weights: SeasonWeights = {}
+  for (const part of value.split(',')) {
+    const [season, raw] = part.split(':')
+    const weight = raw?.trim() ? Number(raw) : NaN // Number('') would read a missing weight as 0
+    if (!isSeason(season) || !Number.isFinite(weight) || weight < 0) return null
+    weights[season] = weight
+  }
+  return weights
+}
+
+export interface ThresholdQueryOptions {
+  season?: Season
+  numYears?: number
+  strategy?: ForecastStrategy
+  /**
+   * 'none'     — only the requested season (default)
+   * 'fallback' — other seasons are used only when the requested one has no data
+   * 'blend'    — all seasons contribute, scaled by seasonWeights
+   */
+  pooling?: PoolingMode
+  seasonWeights?: SeasonWeights
+  /** Syllabus option to read overall thresholds for; the default option when omitted */
+  optionCode?: string | null
+  /** Scale the subject is graded on; A*–G when omitted */
+  gradingScale?: GradingScale
+  /** Only series from exam years this syllabus version covers; every year when omitted */
+  version?: SyllabusVersion | null
+}
+
+interface SeriesInfo {
+  year: number
+  season: Season
+}
+
+interface ThresholdPoint<G extends string = Grade> {
+  grade: G
+  series_id: string
+  pct: number
+  source_url?: string | null
+}
+
+type RowFetcher<G extends string = Grade> = (seriesIds: string[]) => Promise<ThresholdPoint<G>[]>
+
+type Summary<G extends string> = Omit<GradeThresholdSummary, 'grade'> & { grade: G }
 
 /**
- * Fetches subject-level overall thresholds from the DB for the past N series of a given season,
- * converts each year's threshold mark to a percentage of the overall max mark,
- * then returns the recency-weighted mean + range per grade.
+ * Fetches subject-level overall thresholds for the past N series of a given season
+ * (optionally pooled with other seasons), converts each year's threshold mark to a percentage
+ * of the overall max mark, then returns the forecast boundary (recency-weighted mean by default)
+ * + range per grade. Each summary's year_data lists the series that actually contributed,
+ * with the Cambridge document each was read from where the seeder recorded it.
  */
 export async function averageThresholds(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  supabase: any,
+  repo: ThresholdRepository,
   subjectId: string,
   tier: Tier | null,
-  season: string = 'FM',
-  numYears: number = 5
+  options: ThresholdQueryOptions = {}
 ): Promise<GradeThresholdSummary[]> {
-  // Get the most recent N series for the given season
-  const { data: seriesData, error: seriesError } = await supabase
-    .from('series')
-    .select('id, year')
-    .eq('season', season)
-    .order('year', { ascending: false })
-    .limit(numYears)
-
-  if (seriesError || !seriesData || seriesData.length === 0) {
-    return []
-  }
+  return pooledSummaries(repo, options, async (seriesIds) => {
+    const thresholdRows = await repo.subjectThresholds(subjectId, seriesIds, tier, options.optionCode ?? null)
 
-  const seriesIds = seriesData.map((s: { id: string }) => s.id)
+    return thresholdRows.map((row) => ({
+      grade: row.grade as Grade,
+      series_id: row.series_id,
+      pct: toPct(row.min_mark, row.max_mark),
+      source_url: row.source_url,
+    }))
+  }, gradesFor(options.gradingScale))
+}
 
-  // Fetch overall subject thresholds for those series
-  let query = supabase
-    .from('subject_thresholds')
-    .select('grade, min_mark, max_mark, series_id')
-    .eq('subject_id', subjectId)
-    .in('series_id', seriesIds)
+/**
+ * Component-level equivalent of averageThresholds: reads a single paper's
+ * boundaries from grade_thresholds and expresses them as a percentage of the
+ * paper's max raw mark (grade_thresholds only stores min_mark).
+ */
+export async function averageComponentThresholds(
+  repo: ThresholdRepository,
+  paperId: string,
+  maxRawMark: number,
+  options: ThresholdQueryOptions = {}
+): Promise<GradeThresholdSummary[]> {
+  return pooledSummaries(repo, options, async (seriesIds) => {
+    const thresholdRows = await repo.componentThresholds(paperId, seriesIds)
 
-  // Supabase builder methods return new objects — must reassign
-  if (tier) {
-    query = query.eq('tier', tier)
-  } else {
-    query = query.is('tier', null)
+    return thresholdRows.map((row) => ({
+      grade: row.grade as Grade,
+      series_id: row.series_id,
+      pct: toPct(row.min_mark, maxRawMark),
+    }))
+  }, gradesFor(options.gradingScale))
+}
+
+/**
+ * Endorsement equivalent of averageComponentThresholds: Distinction / Merit /
+ * Pass boundaries for an endorsement paper, as a percentage of its max raw mark.
+ */
+export async function averageEndorsementThresholds(
+  repo: ThresholdRepository,
+  paperId: string,
+  maxRawMark: number,
+  options: ThresholdQueryOptions = {}
+): Promise<EndorsementThresholdSummary[]> {
+  return pooledSummaries(repo, options, async (seriesIds) => {
+    const thresholdRows = await repo.endorsementThresholds(paperId, seriesIds)
+
+    return thresholdRows.map((row) => ({
+      grade: row.grade as EndorsementThresholdSummary['grade'],
+      series_id: row.series_id,
+      pct: toPct(row.min_mark, maxRawMark),
+    }))
+  }, ENDORSEMENT_ORDER)
+}
+
+/**
+ * Applies the pooling mode: decides which seasons' series to read, fetches
+ * their rows and weights each series by its season before summarising.
+ */
+async function pooledSummaries<G extends string = Grade>(
+  repo: ThresholdRepository,
+  options: ThresholdQueryOptions,
+  fetchRows: RowFetcher<G>,
+  gradeOrder: readonly G[]
+): Promise<Summary<G>[]> {
+  const {
+    season = 'FM',
+    numYears = 5,
+    strategy = DEFAULT_FORECAST_STRATEGY,
+    pooling = 'none',
+    seasonWeights = {},
+    version = null,
+  } = options
+
+  const otherSeasons = SEASONS.filter((s) => s !== season)
+  const weightFor = (s: Season) =>
+    seasonWeights[s] ?? (s === season ? 1 : DEFAULT_OTHER_SEASON_WEIGHT)
+
+  const load = async (seasons: Season[]) => {
+    const series = await fetchRecentSeries(repo, seasons, numYears, version)
+    const ids = Object.keys(series)
+    return { series, rows: ids.length > 0 ? await fetchRows(ids) : [] }
   }
 
-  const { data: thresholdRows, error: thresholdError } = await query
+  let loaded = await load(pooling === 'blend' ? SEASONS : [season])
 
-  if (thresholdError || !thresholdRows || thresholdRows.length === 0) {
-    return []
+  if (loaded.rows.length === 0 && pooling === 'fallback') {
+    loaded = await load(otherSeasons)
   }
 
-  // Build a map of seriesId → year
-  const seriesYearMap: Record<string, number> = {}
+  const { series, rows } = loaded
+  if (rows.length === 0) return []
+
+  // Forecast the next series of the requested season after the latest data seen
+  const latestYear = Math.max(...rows.map((r) => series[r.series_id]?.year ?? 0))
+  const targetTime = seriesTime(latestYear + 1, season)
+
+  return summariseThresholds(
+    rows
+      .filter((r) => series[r.series_id])
+      .map((r) => ({
+        grade: r.grade,
+        year: series[r.series_id].year,
+        season: series[r.series_id].season,
+        pct: r.pct,
+        weight: weightFor(series[r.series_id].season),
+        ...(r.source_url ? { source_url: r.source_url } : {}),
+      })),
+    strategy,
+    targetTime,
+    gradeOrder
+  )
+}
+
+/**
+ * Returns seriesId → { year, season } for the most recent N series of each requested season,
+ * limited to the years a syllabus version covers so older structures don't skew the forecast.
+ */
+async function fetchRecentSeries(
+  repo: ThresholdRepository,
+  seasons: Season[],
+  numYears: number,
+  version: SyllabusVersion | null
+): Promise<Record<string, SeriesInfo>> {
+  const seriesData = await repo.listSeries(seasons, version)
+
+  const seriesMap: Record<string, SeriesInfo> = {}
+  const taken: Partial<Record<Season, number>> = {}
   for (const s of seriesData) {
-    seriesYearMap[s.id] = s.year
+    if ((taken[s.season] ?? 0) >= numYears) continue
+    taken[s.season] = (taken[s.season] ?? 0) + 1
+    seriesMap[s.id] = { year: s.year, season: s.season }
   }
+  return seriesMap
+}
 
-  // Group by grade, compute percentage per year
-  const gradeMap: Record<Grade, { year: number; pct: number }[]> = {} as never
-
-  for (const row of thresholdRows) {
-    const grade = row.grade as Grade
-    if (!gradeMap[grade]) gradeMap[grade] = []
+function toPct(minMark: number, maxMark: number): number {
+  return maxMark > 0 ? Math.round((minMark / maxMark) * 1000) / 10 : 0
+}
 
-    const pct =
-      row.max_mark > 0
-        ? Math.round((row.min_mark / row.max_mark) * 1000) / 10
-        : 0
+/** Groups per-series percentages by grade and computes the forecast boundary + range. */
+function summariseThresholds<G extends string>(
+  points: (GradeThresholdSummary['year_data'][number] & { grade: G })[],
+  strategy: ForecastStrategy,
+  targetTime: number,
+  gradeOrder: readonly G[]
+): Summary<G>[] {
+  const gradeMap = {} as Record<G, GradeThresholdSummary['year_data']>
 
-    gradeMap[grade].push({
-      year: seriesYearMap[row.series_id] ?? 0,
-      pct,
-    })
+  for (const { grade, ...point } of points) {
+    if (!gradeMap[grade]) gradeMap[grade] = []
+    gradeMap[grade].push(point)
   }
 
-  // Compute recency-weighted averages and ranges
-  const summaries: GradeThresholdSummary[] = []
+  const summaries: Summary<G>[] = []
 
-  for (const grade of GRADE_ORDER) {
+  for (const grade of gradeOrder) {
     const yearData = gradeMap[grade]
     if (!yearData || yearData.length === 0) continue
 
@@ -84,25 +263,21 @@ export async function averageThresholds(
     const min_pct = Math.min(...pcts)
     const max_pct = Math.max(...pcts)
 
-    // Recency weighting: most recent year gets weight n, oldest gets weight 1
-    const sorted = [...yearData].sort((a, b) => b.year - a.year)
-    const n = sorted.length
-    const totalWeight = (n * (n + 1)) / 2
-    const averaged_pct = Math.round(
-      (sorted.reduce((sum, d, i) => sum + d.pct * (n - i), 0) / totalWeight) * 10
-    ) / 10
-
     summaries.push({
       grade,
-      averaged_pct,
+      averaged_pct: forecastBoundary(yearData, strategy, targetTime),
       min_pct,
       max_pct,
-      year_data: yearData.sort((a, b) => a.year - b.year),
+      year_data: yearData.sort(
+        (a, b) => seriesTime(a.year, a.season) - seriesTime(b.year, b.season)
+      ),
+      strategy,
+      backtest_mae: backtestForecast(yearData, strategy),
     })
   }
 
-  // Sort by grade order (A* first)
+  // Sort by grade order (best grade first)
   return summaries.sort(
-    (a, b) => GRADE_ORDER.indexOf(a.grade) - GRADE_ORDER.indexOf(b.grade)
+    (a, b) => gradeOrder.indexOf(a.grade) - gradeOrder.indexOf(b.grade)
   )
 }
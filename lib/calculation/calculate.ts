@@ -1,28 +1,38 @@
 import type {
   SubjectEstimateInput,
-  SubjectEstimateResult,
+  SubjectThresholdData,
+  ReverseEntryInput,
+  ReverseResult,
+  PaperMarkEntry,
   EstimateResult,
-  GradeThresholdSummary,
-  Grade,
   Season,
 } from '@/types'
-import { averageThresholds } from './average-thresholds'
-import { createClient } from '@/lib/supabase/server'
-
-const GRADE_ORDER: Grade[] = ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'U']
+import {
+  averageThresholds,
+  averageComponentThresholds,
+  averageEndorsementThresholds,
+  type ThresholdQueryOptions,
+} from './average-thresholds'
+import { fetchUmsConversion } from './ums'
+import { estimateSubject, reverseSubject } from './core'
+import { DEFAULT_GRADING_SCALE } from '@/lib/grades'
+import { versionOf } from '@/lib/syllabus-versions'
+import type { ThresholdRepository } from '@/lib/data/repositories'
 
 /**
  * Main entry point. Accepts a list of subject entries with marks entered,
- * returns estimated grades with threshold data.
+ * returns estimated grades with threshold data read from `repo`.
  */
 export async function calculateEstimate(
+  repo: ThresholdRepository,
   entries: SubjectEstimateInput[],
-  season: Season = 'MJ'
+  season: Season = 'MJ',
+  options: Omit<ThresholdQueryOptions, 'season'> = {}
 ): Promise<EstimateResult> {
-  const supabase = await createClient()
-
   const results = await Promise.all(
-    entries.map((entry) => calculateSubjectGrade(entry, supabase, season))
+    entries.map(async (entry) =>
+      estimateSubject(entry, await loadSubjectThresholdData(repo, entry, { ...options, season }))
+    )
   )
 
   return {
@@ -31,82 +41,77 @@ export async function calculateEstimate(
   }
 }
 
-async function calculateSubjectGrade(
+/**
+ * Everything estimateSubject needs for an entry, read from `repo`. Depends on
+ * the entry's papers, tier and option but not on the marks entered, so the
+ * browser can load it once and recalculate as marks are typed.
+ */
+export async function loadSubjectThresholdData(
+  repo: ThresholdRepository,
   entry: SubjectEstimateInput,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  supabase: any,
-  season: Season = 'MJ'
-): Promise<SubjectEstimateResult> {
-  const { subject_id, subject_code, subject_name, tier_selected, paper_marks } = entry
-
-  // 1. Calculate the user's weighted total as a percentage (0–100)
-  let weightedTotal = 0
-  let totalWeight = 0
-  const missingPapers = paper_marks.some((pm) => pm.raw_mark < 0)
-
-  for (const pm of paper_marks) {
-    if (pm.raw_mark < 0 || pm.max_raw_mark <= 0) continue
-    const normalised = Math.min(pm.raw_mark / pm.max_raw_mark, 1)
-    weightedTotal += normalised * pm.weight_percentage
-    totalWeight += pm.weight_percentage
-  }
-
-  // Scale to 100 if weights don't add to exactly 100 (handles partial paper entry)
-  if (totalWeight > 0 && totalWeight < 100) {
-    weightedTotal = (weightedTotal / totalWeight) * 100
-  }
-
-  // 2. Fetch averaged historical thresholds for this subject
-  const thresholds = await averageThresholds(supabase, subject_id, tier_selected, season)
+  options: ThresholdQueryOptions
+): Promise<SubjectThresholdData> {
+  // Only boundaries from years the entered papers' structure was in use
+  const version = versionOf(entry.paper_marks)
+  const scaleOptions = { ...options, gradingScale: entry.grading_scale ?? DEFAULT_GRADING_SCALE, version }
+  const papers = entry.paper_marks.filter((pm) => pm.max_raw_mark > 0 && !pm.is_endorsement)
+  const endorsementPapers = entry.paper_marks.filter((pm) => pm.is_endorsement)
 
-  // 3. Determine estimated grade
-  let estimatedGrade: Grade | null = null
+  const [overall, components, endorsements, ums] = await Promise.all([
+    averageThresholds(repo, entry.subject_id, entry.tier_selected, {
+      ...scaleOptions,
+      optionCode: entry.option_code ?? null,
+    }),
+    byPaper(papers, (pm) => averageComponentThresholds(repo, pm.paper_id, pm.max_raw_mark, scaleOptions)),
+    byPaper(endorsementPapers, (pm) =>
+      averageEndorsementThresholds(repo, pm.paper_id, pm.max_raw_mark, { ...options, version })
+    ),
+    loadUmsTables(repo, entry.paper_marks, options.season ?? 'MJ'),
+  ])
 
-  for (const g of GRADE_ORDER) {
-    const t = thresholds.find((t) => t.grade === g)
-    if (t && weightedTotal >= t.averaged_pct) {
-      estimatedGrade = g
-      break
-    }
-  }
-
-  return {
-    subject_id,
-    subject_code,
-    subject_name,
-    tier_selected,
-    weighted_total_pct: Math.round(weightedTotal * 10) / 10,
-    estimated_grade: estimatedGrade,
-    thresholds,
-    missing_papers: missingPapers,
-  }
+  return { overall, components, endorsements, ums }
 }
 
 /**
- * Reverse calculator: given a target grade and current marks for some papers,
- * what raw mark is needed on a specific paper to achieve the grade?
+ * Target mode: for each entry, the mark needed on every paper not yet sat
+ * (raw_mark < 0) to reach the entry's target grade, assuming the same
+ * percentage on each remaining paper.
  */
-export function reverseCalculate({
-  targetGradePct,
-  currentWeightedPct,
-  targetPaperWeight,
-  targetPaperMaxMark,
-}: {
-  targetGradePct: number
-  currentWeightedPct: number
-  targetPaperWeight: number
-  targetPaperMaxMark: number
-}): { needed_raw: number; needed_pct: number; achievable: boolean } {
-  // How much weighted % still needs to come from the target paper
-  const needed_weighted = targetGradePct - currentWeightedPct
-  // As a fraction of the paper's weight
-  const needed_fraction = needed_weighted / targetPaperWeight
-  const needed_pct = Math.round(needed_fraction * 100 * 10) / 10
-  const needed_raw = Math.ceil(needed_fraction * targetPaperMaxMark)
+export async function reverseEstimate(
+  repo: ThresholdRepository,
+  entries: ReverseEntryInput[],
+  season: Season = 'MJ',
+  options: Omit<ThresholdQueryOptions, 'season'> = {}
+): Promise<ReverseResult[]> {
+  return Promise.all(
+    entries.map(async (entry) => {
+      const [overall, ums] = await Promise.all([
+        averageThresholds(repo, entry.subject_id, entry.tier_selected, {
+          ...options,
+          season,
+          optionCode: entry.option_code,
+          gradingScale: entry.grading_scale,
+          version: versionOf(entry.paper_marks),
+        }),
+        loadUmsTables(repo, entry.paper_marks, season),
+      ])
+      return reverseSubject(entry, { overall, ums })
+    })
+  )
+}
 
-  return {
-    needed_raw: Math.max(0, needed_raw),
-    needed_pct: Math.max(0, needed_pct),
-    achievable: needed_raw <= targetPaperMaxMark && needed_fraction <= 1,
-  }
+/** Conversion tables for the UMS papers among `paperMarks`. */
+function loadUmsTables(
+  repo: ThresholdRepository,
+  paperMarks: PaperMarkEntry[],
+  season: Season
+): Promise<SubjectThresholdData['ums']> {
+  return byPaper(paperMarks.filter((pm) => pm.is_ums), (pm) => fetchUmsConversion(repo, pm.paper_id, season))
+}
+
+async function byPaper<P extends { paper_id: string }, T>(
+  papers: P[],
+  load: (pm: P) => Promise<T>
+): Promise<Record<string, T>> {
+  return Object.fromEntries(await Promise.all(papers.map(async (pm) => [pm.paper_id, await load(pm)])))
 }
@@ -0,0 +1,343 @@
+import type {
+  SubjectEstimateInput,
+  SubjectEstimateResult,
+  SubjectThresholdData,
+  ReverseEntryInput,
+  ReverseResult,
+  PaperMarkEntry,
+  PaperEstimateResult,
+  PaperSensitivity,
+  EndorsementResult,
+  EndorsementThresholdSummary,
+  GradeThresholdSummary,
+  Grade,
+} from '@/types'
+import { gradeProbabilities } from './probability'
+import { rawMarkForUms, toUmsEntry } from './ums'
+import { solveTarget } from './solver'
+import { DEFAULT_GRADING_SCALE, splitDoubleGrade } from '@/lib/grades'
+import { versionOf } from '@/lib/syllabus-versions'
+
+/**
+ * The calculation core: marks plus a threshold dataset in, result out.
+ *
+ * Nothing here fetches — the boundaries come in as a SubjectThresholdData,
+ * loaded by loadSubjectThresholdData (calculate.ts) on the server or the CLI,
+ * or by POST /api/estimate/thresholds in the browser. Everything is
+ * synchronous and free of server-only imports, so all three get the same
+ * result from the same data.
+ */
+
+/** Estimated grade for one subject entry against its threshold data. */
+export function estimateSubject(
+  entry: SubjectEstimateInput,
+  data: SubjectThresholdData
+): SubjectEstimateResult {
+  const { subject_id, subject_code, subject_name, tier_selected } = entry
+  const optionCode = entry.option_code ?? null
+  const gradingScale = entry.grading_scale ?? DEFAULT_GRADING_SCALE
+  const version = versionOf(entry.paper_marks)
+  const thresholds = data.overall
+
+  // Endorsement papers are graded on their own scale and never count towards the overall grade
+  const paper_marks = entry.paper_marks.filter((pm) => !pm.is_endorsement)
+  const endorsementMark = entry.paper_marks.find((pm) => pm.is_endorsement && pm.raw_mark >= 0)
+
+  // 1. Convert UMS papers' raw marks to UMS so every paper is weighted on its reported scale
+  const weightedMarks = toWeightingScale(paper_marks, data)
+
+  // 2. Calculate the user's weighted total as a percentage (0–100),
+  //    plus the totals at either end of any mark ranges entered
+  const missingPapers = paper_marks.some((pm) => pm.raw_mark < 0)
+  const weightedTotal = weightedTotalPct(weightedMarks, (pm) => pm.raw_mark)
+  const lowTotal = weightedTotalPct(weightedMarks, (pm) => Math.min(pm.raw_mark_low ?? pm.raw_mark, pm.raw_mark))
+  const highTotal = weightedTotalPct(weightedMarks, (pm) => Math.max(pm.raw_mark_high ?? pm.raw_mark, pm.raw_mark))
+
+  // 3. Determine estimated grade, overall and per paper (component boundaries are raw marks)
+  const paperResults = paper_marks
+    .filter((pm) => pm.raw_mark >= 0 && pm.max_raw_mark > 0)
+    .map((pm): PaperEstimateResult => {
+      const paperThresholds = data.components[pm.paper_id] ?? []
+      const pct = Math.min(pm.raw_mark / pm.max_raw_mark, 1) * 100
+
+      return {
+        paper_id: pm.paper_id,
+        paper_number: pm.paper_number,
+        paper_name: pm.paper_name,
+        raw_mark: pm.raw_mark,
+        pct: Math.round(pct * 10) / 10,
+        estimated_grade: gradeForPct(pct, paperThresholds),
+        thresholds: paperThresholds,
+      }
+    })
+
+  const estimatedGrade = gradeForPct(weightedTotal, thresholds)
+
+  return {
+    subject_id,
+    subject_code,
+    subject_name,
+    tier_selected,
+    option_code: optionCode,
+    grading_scale: gradingScale,
+    syllabus_version: version,
+    weighted_total_pct: Math.round(weightedTotal * 10) / 10,
+    estimated_grade: estimatedGrade,
+    grade_pair: splitDoubleGrade(estimatedGrade),
+    grade_probabilities: gradeProbabilities(weightedTotal, thresholds),
+    grade_band: {
+      worst: gradeForPct(lowTotal, thresholds, (t) => t.max_pct),
+      expected: estimatedGrade,
+      best: gradeForPct(highTotal, thresholds, (t) => t.min_pct),
+      low_pct: Math.round(lowTotal * 10) / 10,
+      high_pct: Math.round(highTotal * 10) / 10,
+    },
+    thresholds,
+    paper_results: paperResults,
+    sensitivity: paperSensitivity(weightedMarks, thresholds, estimatedGrade),
+    endorsement: endorsementMark
+      ? endorsementResult(endorsementMark, data.endorsements[endorsementMark.paper_id] ?? [])
+      : null,
+    missing_papers: missingPapers,
+  }
+}
+
+function endorsementResult(
+  pm: PaperMarkEntry,
+  thresholds: EndorsementThresholdSummary[]
+): EndorsementResult {
+  const pct = pm.max_raw_mark > 0 ? Math.min(pm.raw_mark / pm.max_raw_mark, 1) * 100 : 0
+
+  return {
+    paper_id: pm.paper_id,
+    paper_name: pm.paper_name,
+    raw_mark: pm.raw_mark,
+    max_raw_mark: pm.max_raw_mark,
+    grade: thresholds.length === 0
+      ? null
+      : thresholds.find((t) => pct >= t.averaged_pct)?.grade ?? 'Ungraded',
+    thresholds,
+  }
+}
+
+/**
+ * For each entered paper, holding the others fixed: how many more marks would
+ * lift the subject to the next grade, and how many could be lost before it
+ * drops a grade. UMS papers are skipped — their marks are on the UMS scale here.
+ */
+function paperSensitivity(
+  paperMarks: PaperMarkEntry[],
+  thresholds: GradeThresholdSummary[],
+  estimatedGrade: Grade | null
+): PaperSensitivity[] {
+  if (thresholds.length === 0) return []
+
+  const gradeIndex = estimatedGrade
+    ? thresholds.findIndex((t) => t.grade === estimatedGrade)
+    : thresholds.length
+  const next = gradeIndex > 0 ? thresholds[gradeIndex - 1] : null
+  const current = estimatedGrade ? thresholds[gradeIndex] : null
+
+  return paperMarks
+    .filter((pm) => !pm.is_ums && pm.raw_mark >= 0 && pm.max_raw_mark > 0)
+    .map((pm) => {
+      const totalWith = (mark: number) =>
+        weightedTotalPct(paperMarks, (p) => (p.paper_id === pm.paper_id ? mark : p.raw_mark))
+
+      let marksToNext: number | null = null
+      if (next) {
+        for (let mark = pm.raw_mark + 1; mark <= pm.max_raw_mark; mark++) {
+          if (totalWith(mark) >= next.averaged_pct) {
+            marksToNext = mark - pm.raw_mark
+            break
+          }
+        }
+      }
+
+      let marksToDrop: number | null = null
+      if (current) {
+        for (let mark = pm.raw_mark - 1; mark >= 0; mark--) {
+          if (totalWith(mark) < current.averaged_pct) {
+            marksToDrop = pm.raw_mark - mark - 1
+            break
+          }
+        }
+      }
+
+      return {
+        paper_id: pm.paper_id,
+        paper_name: pm.paper_name,
+        raw_mark: pm.raw_mark,
+        max_raw_mark: pm.max_raw_mark,
+        next_grade: next?.grade ?? null,
+        marks_to_next: marksToNext,
+        lower_grade: current ? thresholds[gradeIndex + 1]?.grade ?? 'U' : null,
+        marks_to_drop: marksToDrop,
+      }
+    })
+}
+
+/**
+ * Target mode for one entry: the mark needed on every paper not yet sat
+ * (raw_mark < 0) to reach the target grade, assuming the same percentage on
+ * each remaining paper. Only the overall boundaries and UMS tables are used.
+ */
+export function reverseSubject(
+  entry: ReverseEntryInput,
+  data: Pick<SubjectThresholdData, 'overall' | 'ums'>
+): ReverseResult {
+  const { subject_id, subject_code, subject_name, tier_selected, paper_marks, target_grade } = entry
+
+  const weightedMarks = toWeightingScale(paper_marks, data)
+  const target = data.overall.find((t) => t.grade === target_grade)
+
+  const counted = weightedMarks.filter((pm) => pm.max_raw_mark > 0 && !pm.is_endorsement)
+  const known = counted.filter((pm) => pm.raw_mark >= 0)
+  const remaining = counted.filter((pm) => pm.raw_mark < 0)
+
+  const totalWeight = counted.reduce((sum, pm) => sum + pm.weight_percentage, 0)
+  const remainingWeight = remaining.reduce((sum, pm) => sum + pm.weight_percentage, 0)
+  const banked = known.reduce(
+    (sum, pm) => sum + Math.min(pm.raw_mark / pm.max_raw_mark, 1) * pm.weight_percentage,
+    0
+  )
+
+  // Weights are scaled to 100 in the forward calculation, so scale the boundary the same way
+  const targetWeighted = target && totalWeight > 0 ? (target.averaged_pct / 100) * totalWeight : null
+
+  const base = {
+    subject_id,
+    subject_code,
+    subject_name,
+    tier_selected,
+    target_grade,
+    target_pct: target?.averaged_pct ?? null,
+    current_pct: totalWeight > 0 ? Math.round((banked / totalWeight) * 1000) / 10 : 0,
+    banked_weighted: banked,
+    target_weighted: targetWeighted,
+  }
+
+  if (targetWeighted === null) {
+    return { ...base, achievable: false, already_secured: false, remaining_papers: [], solution: null }
+  }
+
+  if (banked >= targetWeighted || remaining.length === 0) {
+    const secured = banked >= targetWeighted
+    return { ...base, achievable: secured, already_secured: secured, remaining_papers: [], solution: null }
+  }
+
+  const needed = remaining.map((pm) => {
+    // UMS papers: the share needed is of the UMS maximum, then read back through the table
+    const umsMax = pm.is_ums ? pm.max_ums_mark ?? 0 : 0
+    const table = umsMax > 0 ? data.ums[pm.paper_id] ?? [] : []
+    const reverse = reverseCalculate({
+      targetGradePct: targetWeighted,
+      currentWeightedPct: banked,
+      targetPaperWeight: remainingWeight,
+      targetPaperMaxMark: table.length > 0 ? umsMax : pm.max_raw_mark,
+    })
+    if (table.length === 0) return { pm, ...reverse }
+
+    const raw = rawMarkForUms(reverse.needed_raw, table, pm.max_raw_mark)
+    return {
+      pm,
+      needed_raw: raw ?? pm.max_raw_mark,
+      needed_pct: Math.round(((raw ?? pm.max_raw_mark) / pm.max_raw_mark) * 1000) / 10,
+      achievable: reverse.achievable && raw !== null,
+    }
+  })
+
+  return {
+    ...base,
+    achievable: needed.every((n) => n.achievable),
+    already_secured: false,
+    remaining_papers: needed.map(({ pm, needed_raw, needed_pct }) => ({
+      paper_id: pm.paper_id,
+      paper_number: pm.paper_number,
+      paper_name: pm.paper_name,
+      max_raw_mark: pm.max_raw_mark,
+      needed_raw,
+      needed_pct,
+    })),
+    solution: remaining.length > 1 ? solveTarget(remaining, banked, targetWeighted) : null,
+  }
+}
+
+/** Converts known marks on UMS papers onto the UMS scale used for weighting. */
+function toWeightingScale(
+  paperMarks: PaperMarkEntry[],
+  data: Pick<SubjectThresholdData, 'ums'>
+): PaperMarkEntry[] {
+  return paperMarks.map((pm) => (pm.is_ums ? toUmsEntry(pm, data.ums[pm.paper_id] ?? []) : pm))
+}
+
+/**
+ * Weighted total (0–100) using the mark picked for each paper. Papers without
+ * a mark are skipped and the remaining weights are scaled up to 100.
+ */
+function weightedTotalPct(
+  paperMarks: PaperMarkEntry[],
+  markFor: (pm: PaperMarkEntry) => number
+): number {
+  let weightedTotal = 0
+  let totalWeight = 0
+
+  for (const pm of paperMarks) {
+    if (pm.raw_mark < 0 || pm.max_raw_mark <= 0) continue
+    const normalised = Math.min(Math.max(markFor(pm), 0) / pm.max_raw_mark, 1)
+    weightedTotal += normalised * pm.weight_percentage
+    totalWeight += pm.weight_percentage
+  }
+
+  // Scale to 100 if weights don't add to exactly 100 (handles partial paper entry)
+  if (totalWeight > 0 && totalWeight < 100) {
+    weightedTotal = (weightedTotal / totalWeight) * 100
+  }
+
+  return weightedTotal
+}
+
+/**
+ * Highest grade whose boundary is at or below the given percentage. Uses the
+ * averaged boundary unless another (e.g. the historical min or max) is given.
+ * Thresholds are ordered best grade first, whatever the subject's scale.
+ */
+export function gradeForPct(
+  pct: number,
+  thresholds: GradeThresholdSummary[],
+  boundary: (t: GradeThresholdSummary) => number = (t) => t.averaged_pct
+): Grade | null {
+  for (const t of thresholds) {
+    if (pct >= boundary(t)) return t.grade
+  }
+  return null
+}
+
+/**
+ * Reverse calculator: given a target grade and current marks for some papers,
+ * what raw mark is needed on a specific paper to achieve the grade?
+ */
+export function reverseCalculate({
+  targetGradePct,
+  currentWeightedPct,
+  targetPaperWeight,
+  targetPaperMaxMark,
+}: {
+  targetGradePct: number
+  currentWeightedPct: number
+  targetPaperWeight: number
+  targetPaperMaxMark: number
+}): { needed_raw: number; needed_pct: number; achievable: boolean } {
+  // How much weighted % still needs to come from the target paper
+  const needed_weighted = targetGradePct - currentWeightedPct
+  // As a fraction of the paper's weight
+  const needed_fraction = needed_weighted / targetPaperWeight
+  const needed_pct = Math.round(needed_fraction * 100 * 10) / 10
+  const needed_raw = Math.ceil(needed_fraction * targetPaperMaxMark)
+
+  return {
+    needed_raw: Math.max(0, needed_raw),
+    needed_pct: Math.max(0, needed_pct),
+    achievable: needed_raw <= targetPaperMaxMark && needed_fraction <= 1,
+  }
+}
@@ -0,0 +1,145 @@
+import type { ForecastStrategy, Season } from '@/types'
+
+/**
+ * Boundary forecasting strategies.
+ *
+ * Each strategy takes one grade's historical boundary percentages and predicts
+ * the boundary for a target series. Every strategy can be back-tested on the
+ * same history, so the default can be chosen on measured error rather than taste.
+ *
+ * Points may come from several seasons (see cross-season pooling in
+ * average-thresholds.ts): they are ordered by series time (FM < MJ < ON within
+ * a year) and each can carry a weight that scales its influence.
+ */
+
+export interface ForecastPoint {
+  year: number
+  pct: number
+  season?: Season
+  weight?: number // defaults to 1
+}
+
+interface TimedPoint {
+  time: number
+  pct: number
+  weight: number
+}
+
+type Forecaster = (points: TimedPoint[], targetTime: number) => number
+
+// Where each series falls within its exam year
+const SEASON_OFFSET: Record<Season, number> = { FM: 0.2, MJ: 0.5, ON: 0.85 }
+
+// Weight of the newest observation in exponential smoothing
+const SMOOTHING_ALPHA = 0.5
+
+export const DEFAULT_FORECAST_STRATEGY: ForecastStrategy = 'recency'
+
+export const FORECAST_STRATEGIES: Record<ForecastStrategy, Forecaster> = {
+  recency: recencyWeightedMean,
+  regression: linearRegression,
+  smoothing: exponentialSmoothing,
+  median,
+}
+
+export function isForecastStrategy(value: unknown): value is ForecastStrategy {
+  return typeof value === 'string' && value in FORECAST_STRATEGIES
+}
+
+/** Position of a series on a continuous time axis, e.g. MJ 2024 → 2024.5. */
+export function seriesTime(year: number, season?: Season): number {
+  return year + (season ? SEASON_OFFSET[season] : 0)
+}
+
+/**
+ * Predicts the boundary percentage for targetTime (defaults to one year after
+ * the latest observation), rounded to one decimal place.
+ */
+export function forecastBoundary(
+  points: ForecastPoint[],
+  strategy: ForecastStrategy = DEFAULT_FORECAST_STRATEGY,
+  targetTime?: number
+): number {
+  const timed = toTimed(points)
+  if (timed.length === 0) return 0
+
+  const target = targetTime ?? timed[timed.length - 1].time + 1
+  const predicted = FORECAST_STRATEGIES[strategy](timed, target)
+
+  return Math.round(Math.min(Math.max(predicted, 0), 100) * 10) / 10
+}
+
+/**
+ * Walk-forward back-test: predicts each series from the series before it only
+ * and returns the mean absolute error in percentage points, or null when there
+ * is too little history (fewer than two series).
+ */
+export function backtestForecast(
+  points: ForecastPoint[],
+  strategy: ForecastStrategy = DEFAULT_FORECAST_STRATEGY
+): number | null {
+  const sorted = [...points].sort((a, b) => seriesTime(a.year, a.season) - seriesTime(b.year, b.season))
+  if (sorted.length < 2) return null
+
+  let totalError = 0
+  for (let i = 1; i < sorted.length; i++) {
+    const target = seriesTime(sorted[i].year, sorted[i].season)
+    const predicted = forecastBoundary(sorted.slice(0, i), strategy, target)
+    totalError += Math.abs(predicted - sorted[i].pct)
+  }
+
+  return Math.round((totalError / (sorted.length - 1)) * 100) / 100
+}
+
+/** Sorted oldest first; zero-weight points are dropped. */
+function toTimed(points: ForecastPoint[]): TimedPoint[] {
+  return points
+    .map((p) => ({ time: seriesTime(p.year, p.season), pct: p.pct, weight: p.weight ?? 1 }))
+    .filter((p) => p.weight > 0)
+    .sort((a, b) => a.time - b.time)
+}
+
+// ── Strategies (points are sorted oldest first) ─────────────────────────────
+
+/** Most recent series gets rank n, oldest gets rank 1; ranks are scaled by point weight. */
+function recencyWeightedMean(points: TimedPoint[]): number {
+  const weights = points.map((d, i) => (i + 1) * d.weight)
+  const totalWeight = weights.reduce((a, b) => a + b, 0)
+  return points.reduce((sum, d, i) => sum + d.pct * weights[i], 0) / totalWeight
+}
+
+/** Weighted least-squares line through (time, pct), extrapolated to the target. */
+function linearRegression(points: TimedPoint[], targetTime: number): number {
+  const totalWeight = points.reduce((sum, d) => sum + d.weight, 0)
+  const meanTime = points.reduce((sum, d) => sum + d.time * d.weight, 0) / totalWeight
+  const meanPct = points.reduce((sum, d) => sum + d.pct * d.weight, 0) / totalWeight
+
+  const sxx = points.reduce((sum, d) => sum + d.weight * (d.time - meanTime) ** 2, 0)
+  if (sxx === 0) return meanPct // all observations from one series — no trend to fit
+
+  const sxy = points.reduce((sum, d) => sum + d.weight * (d.time - meanTime) * (d.pct - meanPct), 0)
+  return meanPct + (sxy / sxx) * (targetTime - meanTime)
+}
+
+/** Lower-weight points pull the level less: each step's alpha is scaled by relative weight. */
+function exponentialSmoothing(points: TimedPoint[]): number {
+  const maxWeight = Math.max(...points.map((d) => d.weight))
+  return points.slice(1).reduce((level, d) => {
+    const alpha = SMOOTHING_ALPHA * (d.weight / maxWeight)
+    return alpha * d.pct + (1 - alpha) * level
+  }, points[0].pct)
+}
+
+/** Weighted median; with equal weights this is the ordinary median. */
+function median(points: TimedPoint[]): number {
+  const sorted = [...points].sort((a, b) => a.pct - b.pct)
+  const half = sorted.reduce((sum, d) => sum + d.weight, 0) / 2
+
+  let cumulative = 0
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].weight
+    if (cumulative > half) return sorted[i].pct
+    if (cumulative === half) return (sorted[i].pct + sorted[i + 1].pct) / 2
+  }
+  return sorted[sorted.length - 1].pct
+}
@@ -0,0 +1,62 @@
+import type { GradeProbability, GradeThresholdSummary } from '@/types'
+
+/**
+ * Floor on a boundary's standard deviation (in percentage points). With one
+ * year of data — or several identical years — the sample spread is zero,
+ * which would make every estimate look certain.
+ */
+const MIN_SPREAD_PCT = 1.5
+
+/**
+ * Probability of each grade for a weighted total, treating every boundary as
+ * normally distributed around its averaged_pct with the spread observed in
+ * year_data. P(grade g) = P(score clears g) − P(score clears the grade above).
+ *
+ * @param pct - The student's weighted total (0–100)
+ * @param thresholds - Grade summaries ordered best grade first
+ * @returns Non-negligible grades with their probability (0–1), best grade first
+ */
+export function gradeProbabilities(
+  pct: number,
+  thresholds: GradeThresholdSummary[]
+): GradeProbability[] {
+  if (thresholds.length === 0) return []
+
+  const probabilities: GradeProbability[] = []
+  let clearedAbove = 0
+
+  for (const t of thresholds) {
+    const spread = Math.max(stdDev(t.year_data.map((d) => d.pct)), MIN_SPREAD_PCT)
+    // A lower boundary is always at least as easy to clear as a higher one
+    const cleared = Math.max(normalCdf((pct - t.averaged_pct) / spread), clearedAbove)
+    probabilities.push({ grade: t.grade, probability: cleared - clearedAbove })
+    clearedAbove = cleared
+  }
+
+  probabilities.push({ grade: 'U', probability: 1 - clearedAbove })
+
+  return probabilities
+    .filter((p) => p.probability >= 0.005)
+    .map((p) => ({ ...p, probability: Math.round(p.probability * 1000) / 1000 }))
+}
+
+/** Sample standard deviation; 0 for fewer than two values. */
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0
+  const mean = values.reduce((a, b) => a + b, 0) / values.length
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+  return Math.sqrt(variance)
+}
+
+/** Standard normal CDF via the Abramowitz–Stegun erf approximation (error < 1.5e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
@@ -0,0 +1,149 @@
+import type { TargetSolution } from '@/types'
+
+/**
+ * Multi-paper target solver.
+ *
+ * reverseCalculate answers "what do I need on one paper?". With several papers
+ * still to sit there is no single answer — a strong Theory paper can carry a
+ * weak Practical. These helpers describe the ways of reaching the target:
+ * combinations where the last paper takes the least mark that still hits the
+ * target (capped at MAX_COMBINATIONS, sampling a coarser grid beyond that), a
+ * balanced suggestion (the same % on every paper), and a trade-off curve for
+ * charting one paper against the rest.
+ *
+ * Weights and totals are in weighted-percentage points, as in calculate.ts:
+ * bankedWeighted is what the known papers already contribute, targetWeighted
+ * is the boundary scaled to the subject's total paper weight.
+ */
+
+export interface SolverPaper {
+  paper_id: string
+  paper_name: string
+  max_raw_mark: number
+  weight_percentage: number
+}
+
+export interface TradeOffPoint {
+  focus_mark: number
+  rest_pct: number | null // % needed on each other paper; null when out of reach
+  marks: Record<string, number> // raw mark per paper_id for this point
+}
+
+// Upper bound on combinations returned, so 3–4 paper subjects stay cheap
+const MAX_COMBINATIONS = 250
+
+export function solveTarget(
+  papers: SolverPaper[],
+  bankedWeighted: number,
+  targetWeighted: number
+): TargetSolution {
+  const needed = targetWeighted - bankedWeighted
+  const remainingWeight = papers.reduce((sum, p) => sum + p.weight_percentage, 0)
+
+  if (papers.length === 0 || remainingWeight === 0) {
+    return { achievable: needed <= 0, balanced: needed <= 0 ? {} : null, combinations: [], truncated: false }
+  }
+
+  if (needed <= 0) {
+    const zeros = Object.fromEntries(papers.map((p) => [p.paper_id, 0]))
+    return { achievable: true, balanced: zeros, combinations: [zeros], truncated: false }
+  }
+
+  if (needed > remainingWeight) {
+    return { achievable: false, balanced: null, combinations: [], truncated: false }
+  }
+
+  const fraction = needed / remainingWeight
+  const balanced = Object.fromEntries(
+    papers.map((p) => [p.paper_id, Math.min(Math.ceil(fraction * p.max_raw_mark), p.max_raw_mark)])
+  )
+
+  return { achievable: true, balanced, ...minimalCombinations(papers, needed) }
+}
+
+/**
+ * For each mark on the focus paper, the same percentage needed on every other
+ * remaining paper to reach the target.
+ */
+export function tradeOffCurve(
+  papers: SolverPaper[],
+  focusId: string,
+  bankedWeighted: number,
+  targetWeighted: number
+): TradeOffPoint[] {
+  const focus = papers.find((p) => p.paper_id === focusId)
+  if (!focus || focus.max_raw_mark <= 0) return []
+
+  const rest = papers.filter((p) => p.paper_id !== focusId)
+  const restWeight = rest.reduce((sum, p) => sum + p.weight_percentage, 0)
+
+  const points: TradeOffPoint[] = []
+  for (let mark = 0; mark <= focus.max_raw_mark; mark++) {
+    const stillNeeded =
+      targetWeighted - bankedWeighted - (mark / focus.max_raw_mark) * focus.weight_percentage
+    const fraction = stillNeeded <= 0 ? 0 : restWeight > 0 ? stillNeeded / restWeight : Infinity
+    const reachable = fraction <= 1
+
+    const marks: Record<string, number> = { [focusId]: mark }
+    for (const p of rest) marks[p.paper_id] = reachable ? Math.ceil(fraction * p.max_raw_mark) : p.max_raw_mark
+
+    points.push({
+      focus_mark: mark,
+      rest_pct: reachable ? Math.round(fraction * 1000) / 10 : null,
+      marks,
+    })
+  }
+
+  return points
+}
+
+/**
+ * Walks a grid over every paper but the last and takes the least mark on the
+ * last paper that reaches the target. The grid is coarsened so at most
+ * MAX_COMBINATIONS combinations are considered; `truncated` says whether it was.
+ */
+function minimalCombinations(
+  papers: SolverPaper[],
+  needed: number
+): Pick<TargetSolution, 'combinations' | 'truncated'> {
+  const last = papers[papers.length - 1]
+  const free = papers.slice(0, -1)
+
+  if (free.length === 0) {
+    return {
+      combinations: [{ [last.paper_id]: Math.ceil((needed / last.weight_percentage) * last.max_raw_mark) }],
+      truncated: false,
+    }
+  }
+
+  const perAxis = Math.max(2, Math.floor(MAX_COMBINATIONS ** (1 / free.length)))
+  const axes = free.map((p) => gridMarks(p.max_raw_mark, perAxis))
+
+  const combinations: Record<string, number>[] = []
+
+  const walk = (depth: number, marks: Record<string, number>, contributed: number) => {
+    if (depth === free.length) {
+      const fromLast = needed - contributed
+      if (fromLast < 0) return // the other papers already overshoot — not minimal
+      const lastMark = Math.ceil((fromLast / last.weight_percentage) * last.max_raw_mark)
+      if (lastMark <= last.max_raw_mark) combinations.push({ ...marks, [last.paper_id]: lastMark })
+      return
+    }
+
+    const p = free[depth]
+    for (const mark of axes[depth]) {
+      walk(depth + 1, { ...marks, [p.paper_id]: mark }, contributed + (mark / p.max_raw_mark) * p.weight_percentage)
+    }
+  }
+
+  walk(0, {}, 0)
+  return { combinations, truncated: free.some((p) => p.max_raw_mark + 1 > perAxis) }
+}
+
+/** Up to n evenly spaced marks from 0 to max inclusive. */
+function gridMarks(max: number, n: number): number[] {
+  if (max + 1 <= n) return Array.from({ length: max + 1 }, (_, i) => i)
+  const marks = new Set<number>()
+  for (let i = 0; i < n; i++) marks.add(Math.round((i / (n - 1)) * max))
+  return [...marks]
+}
@@ -1,14 +1,18 @@
+import type { PaperMarkEntry, Season } from '@/types'
+import type { ThresholdRepository } from '@/lib/data/repositories'
+
 /**
  * UMS (Uniform Mark Scale) conversion utilities.
  *
  * For the current 17 supported subjects, none use UMS — Cambridge IGCSE has
- * moved to raw mark grading. This module is included for forward compatibility
- * if UMS subjects are added in the future.
+ * moved to raw mark grading. UMS-graded syllabuses can be added by setting
+ * is_ums / max_ums_mark on their papers and dropping conversion tables in
+ * data/ums/ for the seeder.
  *
- * When a subject paper has is_ums = true, the raw mark should be converted
- * to a UMS mark before being used in the weighted calculation. UMS conversion
- * tables are published by Cambridge per paper per series and would need to be
- * stored in the database and looked up here.
+ * When a subject paper has is_ums = true, the raw mark is converted to a UMS
+ * mark before being used in the weighted calculation. Conversion tables are
+ * published by Cambridge per paper per series and stored in ums_conversions
+ * (or read from data/ums/ in file data mode).
  */
 
 export interface UmsConversionPoint {
@@ -52,3 +56,68 @@ export function convertRawToUms(
 
   return rawMark
 }
+
+/**
+ * The inverse of convertRawToUms: the least raw mark (0 to maxRawMark) that
+ * converts to at least the given UMS mark, or null when no raw mark does.
+ */
+export function rawMarkForUms(
+  umsMark: number,
+  conversionTable: UmsConversionPoint[],
+  maxRawMark: number
+): number | null {
+  for (let raw = 0; raw <= maxRawMark; raw++) {
+    if (convertRawToUms(raw, conversionTable) >= umsMark) return raw
+  }
+  return null
+}
+
+/**
+ * Loads the conversion table for a paper from the most recent series of the
+ * given season that has one, falling back to the most recent series of any
+ * season. Returns [] when the paper has no stored table.
+ */
+export async function fetchUmsConversion(
+  repo: ThresholdRepository,
+  paperId: string,
+  season: Season
+): Promise<UmsConversionPoint[]> {
+  const rows = await repo.umsConversions(paperId)
+  if (rows.length === 0) return []
+
+  // Newest series first, preferring the requested season
+  const latest = [...rows].sort(
+    (a, b) =>
+      Number(b.series.season === season) - Number(a.series.season === season) ||
+      b.series.year - a.series.year
+  )[0].series
+
+  return rows
+    .filter((r) => r.series.year === latest.year && r.series.season === latest.season)
+    .map(({ raw_mark, ums_mark }) => ({ raw_mark, ums_mark }))
+}
+
+/**
+ * Returns the entry with its marks expressed on the UMS scale, ready for
+ * weighting. Non-UMS papers, unsat papers (raw_mark < 0) and UMS papers
+ * without a stored table are returned unchanged.
+ */
+export function toUmsEntry(
+  entry: PaperMarkEntry,
+  conversionTable: UmsConversionPoint[]
+): PaperMarkEntry {
+  if (!entry.is_ums || !entry.max_ums_mark || entry.raw_mark < 0 || conversionTable.length === 0) {
+    return entry
+  }
+
+  const convert = (mark: number | undefined) =>
+    mark === undefined ? undefined : convertRawToUms(mark, conversionTable)
+
+  return {
+    ...entry,
+    raw_mark: convertRawToUms(entry.raw_mark, conversionTable),
+    raw_mark_low: convert(entry.raw_mark_low),
+    raw_mark_high: convert(entry.raw_mark_high),
+    max_raw_mark: entry.max_ums_mark,
+  }
+}
@@ -0,0 +1,117 @@
+import type { Season, Tier } from '@/types'
+import type { ParsedComponent, ParsedThreshold } from './parsed'
+import { isValidIn } from '@/lib/syllabus-versions'
+
+/**
+ * Rows derived from the parsed threshold documents. The seeder writes these
+ * to the database and the file data source serves them directly, so both
+ * see the same options, paper max marks and component boundaries.
+ */
+
+const SEASON_ORDER: Season[] = ['FM', 'MJ', 'ON']
+
+export interface DerivedOption {
+  syllabus_code: string
+  tier: Tier | null
+  option_code: string
+  components: string[] // every component listed under the option across series, sorted
+  is_default: boolean // whether the latest series defaults to it
+}
+
+export interface AveragedComponent {
+  syllabus_code: string
+  paper_number: string
+  season: Season
+  year: number
+  grades: { grade: string; min_mark: number }[]
+}
+
+/** Component codes map to papers by their first digit: 22 → 2, 042 → 4. */
+export function componentPaperNumber(componentCode: string): string {
+  return componentCode.replace(/^0+/, '').charAt(0)
+}
+
+/** Every syllabus option seen in the parsed thresholds. */
+export function deriveSyllabusOptions(rows: ParsedThreshold[]): DerivedOption[] {
+  const options: Record<string, DerivedOption> = {}
+  const components: Record<string, Set<string>> = {}
+  const latest: Record<string, number> = {}
+
+  for (const row of rows) {
+    const key = `${row.syllabus_code}|${row.tier ?? ''}|${row.option_code}`
+    const seriesRank = row.year * 10 + SEASON_ORDER.indexOf(row.season)
+    if (!options[key]) {
+      options[key] = { syllabus_code: row.syllabus_code, tier: row.tier, option_code: row.option_code, components: [], is_default: false }
+      components[key] = new Set()
+      latest[key] = -1
+    }
+    for (const c of row.components ?? []) components[key].add(c)
+    if (seriesRank > latest[key]) {
+      latest[key] = seriesRank
+      options[key].is_default = row.is_default ?? true // older parses only kept the default option
+    }
+  }
+
+  return Object.entries(options).map(([key, o]) => ({ ...o, components: [...components[key]].sort() }))
+}
+
+/** The options each paper is sat under, keyed `${code}|${tier ?? ''}|${paper_number}`. */
+export function paperOptionCodes(options: DerivedOption[]): Record<string, string[]> {
+  const byPaper: Record<string, Set<string>> = {}
+  for (const o of options) {
+    for (const c of o.components) {
+      const key = `${o.syllabus_code}|${o.tier ?? ''}|${componentPaperNumber(c)}`
+      if (!byPaper[key]) byPaper[key] = new Set()
+      byPaper[key].add(o.option_code)
+    }
+  }
+  return Object.fromEntries(Object.entries(byPaper).map(([key, codes]) => [key, [...codes].sort()]))
+}
+
+/**
+ * The max mark a paper takes from the threshold documents: its component's in
+ * the most recent year within the paper's valid years. Null for coursework
+ * (paper 0) and papers no document covers.
+ */
+export function componentMaxMark(
+  components: ParsedComponent[],
+  code: string,
+  paper: { paper_number: string; valid_from: number | null; valid_to: number | null }
+): number | null {
+  if (paper.paper_number === '0') return null
+
+  const latest = components
+    .filter((c) => c.syllabus_code === code && c.paper_number === paper.paper_number && isValidIn(paper, c.year))
+    .sort((a, b) => b.year - a.year)[0]
+  return latest?.max_mark ?? null
+}
+
+/**
+ * Component boundaries per paper and series. MJ/ON publish one row per
+ * timezone variant (11, 12, 13…) of the same paper; papers aren't
+ * variant-specific, so each grade's boundary is averaged across variants.
+ */
+export function averageComponentVariants(components: ParsedComponent[]): AveragedComponent[] {
+  // Older parses only recorded component max marks
+  const graded = components.filter((c) => c.season && c.grades?.length > 0)
+
+  const byPaper: Record<string, AveragedComponent & { marks: Record<string, number[]> }> = {}
+  for (const c of graded) {
+    const key = `${c.syllabus_code}_${c.paper_number}_${c.season}_${c.year}`
+    if (!byPaper[key]) {
+      byPaper[key] = { syllabus_code: c.syllabus_code, paper_number: c.paper_number, season: c.season, year: c.year, grades: [], marks: {} }
+    }
+    for (const g of c.grades) {
+      if (!byPaper[key].marks[g.grade]) byPaper[key].marks[g.grade] = []
+      byPaper[key].marks[g.grade].push(g.min_mark)
+    }
+  }
+
+  return Object.values(byPaper).map(({ marks, ...c }) => ({
+    ...c,
+    grades: Object.entries(marks).map(([grade, m]) => ({
+      grade,
+      min_mark: Math.round(m.reduce((a, b) => a + b, 0) / m.length),
+    })),
+  }))
+}
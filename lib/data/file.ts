@@ -0,0 +1,176 @@
+import { existsSync, readFileSync, readdirSync } from 'fs'
+import { join } from 'path'
+import type { Season, SubjectConfig, UmsConversionConfig } from '@/types'
+import type { ParsedComponent, ParsedEndorsement, ParsedThreshold } from './parsed'
+import { paperKey, thresholdKey } from './keys'
+import { isValidIn } from '@/lib/syllabus-versions'
+import type { Repositories } from './repositories'
+import { type MemoryData, createMemoryRepositories } from './memory'
+import {
+  averageComponentVariants,
+  componentMaxMark,
+  deriveSyllabusOptions,
+  paperOptionCodes,
+} from './derive'
+
+/**
+ * Serves the estimator from the repo's own files — data/subjects/*.json,
+ * scripts/parsed/*.json and data/ums/*.json — applying the same derivations
+ * the seeder does, so results match a freshly seeded database.
+ *
+ * Ids are natural keys: a subject's is its syllabus code, a paper's its
+ * seed-diff key ("0625 P5 Core") and a series' "MJ_2024".
+ *
+ * Files are read once per server process; restart after re-parsing. The
+ * estimate routes answer 503 in file mode, so the in-memory saved estimates
+ * are never used by the app.
+ */
+
+// Keyed by root directory
+const cache = new Map<string, Repositories>()
+
+function readJson<T>(path: string, fallback: T): T {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : fallback
+}
+
+function readDir<T>(dir: string): T[] {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => JSON.parse(readFileSync(join(dir, f), 'utf-8')))
+}
+
+function seriesId(season: Season, year: number): string {
+  return `${season}_${year}`
+}
+
+function loadFileData(root: string): MemoryData {
+  const configs = readDir<SubjectConfig>(join(root, 'data', 'subjects'))
+  const umsConfigs = readDir<UmsConversionConfig>(join(root, 'data', 'ums'))
+  const parsedDir = join(root, 'scripts', 'parsed')
+  const known = new Set(configs.map((c) => c.code))
+  // The seeder skips parsed rows for subjects without a JSON
+  const thresholds = readJson<ParsedThreshold[]>(join(parsedDir, 'thresholds.json'), [])
+    .filter((r) => known.has(r.syllabus_code))
+  const components = readJson<ParsedComponent[]>(join(parsedDir, 'components.json'), [])
+  const endorsements = readJson<ParsedEndorsement[]>(join(parsedDir, 'endorsements.json'), [])
+
+  const options = deriveSyllabusOptions(thresholds)
+  const optionCodes = paperOptionCodes(options)
+
+  const subjects: MemoryData['subjects'] = configs
+    .map((config) => {
+      const names = Object.fromEntries((config.options ?? []).map((o) => [o.code, o.name]))
+      return {
+        id: config.code,
+        syllabus_code: config.code,
+        name: config.name,
+        has_tiers: config.has_tiers,
+        grading_scale: config.grading_scale ?? 'A*-G',
+        papers: config.papers
+          .map((p) => {
+            const paper = {
+              paper_number: p.paper_number,
+              tier: p.tier ?? null,
+              valid_from: p.valid_from ?? null,
+              valid_to: p.valid_to ?? null,
+            }
+            return {
+              ...paper,
+              id: paperKey(config.code, paper),
+              name: p.name,
+              is_ums: p.is_ums,
+              max_raw_mark: componentMaxMark(components, config.code, paper) ?? p.max_raw_mark,
+              max_ums_mark: p.max_ums_mark ?? null,
+              weight_percentage: p.weight_percentage,
+              paper_group: p.paper_group ?? null,
+              option_codes: optionCodes[`${config.code}|${paper.tier ?? ''}|${paper.paper_number}`] ?? null,
+              is_endorsement: p.is_endorsement ?? false,
+            }
+          })
+          .sort((a, b) => a.paper_number.localeCompare(b.paper_number)),
+        options: options
+          .filter((o) => o.syllabus_code === config.code)
+          .map((o) => ({
+            id: `${config.code} ${o.tier ?? ''} ${o.option_code}`,
+            tier: o.tier,
+            option_code: o.option_code,
+            name: names[o.option_code] ?? null,
+            components: o.components,
+            is_default: o.is_default,
+          }))
+          .sort((a, b) => a.option_code.localeCompare(b.option_code)),
+      }
+    })
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  const papersOf = (code: string) => subjects.find((s) => s.syllabus_code === code)?.papers ?? []
+
+  // Later rows replace earlier ones, as the seeder's upserts do
+  const overall = new Map<string, MemoryData['subjectThresholds'][number]>()
+  for (const row of thresholds) {
+    for (const g of row.grades) {
+      overall.set(thresholdKey(row.syllabus_code, { ...row, grade: g.grade }), {
+        subject_id: row.syllabus_code,
+        series_id: seriesId(row.season, row.year),
+        tier: row.tier,
+        option_code: row.option_code,
+        is_default: row.is_default ?? true, // older parses only kept the default option
+        grade: g.grade,
+        min_mark: g.min_mark,
+        max_mark: row.max_mark,
+        source_url: row.source?.url ?? null,
+      })
+    }
+  }
+
+  // Tiered subjects share components such as Paper 5; only the version sat that year applies
+  const componentThresholds = averageComponentVariants(components).flatMap((c) =>
+    papersOf(c.syllabus_code)
+      .filter((p) => p.paper_number === c.paper_number && isValidIn(p, c.year))
+      .flatMap((p) => c.grades.map((g) => ({ ...g, paper_id: p.id, series_id: seriesId(c.season, c.year) })))
+  )
+
+  const endorsementThresholds = endorsements.flatMap((e) => {
+    const paper = papersOf(e.syllabus_code).find((p) =>
+      p.is_endorsement && p.paper_number === e.paper_number && isValidIn(p, e.year)
+    )
+    return paper ? e.grades.map((g) => ({ ...g, paper_id: paper.id, series_id: seriesId(e.season, e.year) })) : []
+  })
+
+  // A table without a tier applies to every tier's copy of the paper
+  const umsConversions = umsConfigs.flatMap((config) =>
+    config.conversions.flatMap((table) =>
+      papersOf(config.code)
+        .filter((p) => p.paper_number === table.paper_number && (!table.tier || p.tier === table.tier) && isValidIn(p, table.year))
+        .flatMap((p) => table.points.map((pt) => ({
+          ...pt,
+          paper_id: p.id,
+          series: { year: table.year, season: table.season },
+        })))
+    )
+  )
+
+  const seriesKeys: [Season, number][] = [
+    ...thresholds.map((r): [Season, number] => [r.season, r.year]),
+    ...components.filter((c) => c.season).map((c): [Season, number] => [c.season, c.year]),
+    ...endorsements.map((e): [Season, number] => [e.season, e.year]),
+    ...umsConfigs.flatMap((c) => c.conversions.map((t): [Season, number] => [t.season, t.year])),
+  ]
+  const series = new Map(seriesKeys.map(([season, year]) => [seriesId(season, year), { id: seriesId(season, year), year, season }]))
+
+  return {
+    subjects,
+    series: [...series.values()],
+    subjectThresholds: [...overall.values()],
+    componentThresholds,
+    endorsementThresholds,
+    umsConversions,
+  }
+}
+
+/** Repositories over the repo's files under `root` (the working directory by default). */
+export function fileRepositories(root: string = process.cwd()): Repositories {
+  if (!cache.has(root)) cache.set(root, createMemoryRepositories(loadFileData(root)))
+  return cache.get(root)!
+}
@@ -0,0 +1,13 @@
+import { createClient } from '@/lib/supabase/server'
+import type { Repositories } from './repositories'
+import { DATA_SOURCE } from './mode'
+import { fileRepositories } from './file'
+import { createSupabaseRepositories } from './supabase'
+
+export type * from './repositories'
+
+/** The repositories for NEXT_PUBLIC_DATA_SOURCE, for server code. */
+export async function getRepositories(): Promise<Repositories> {
+  if (DATA_SOURCE === 'file') return fileRepositories()
+  return createSupabaseRepositories(await createClient())
+}
@@ -0,0 +1,25 @@
+/**
+ * Natural keys for seeded rows. The file data source uses them as ids and the
+ * seeder's dry-run diff matches rows on them, so both name a row the same way.
+ */
+
+/** "0625 P5 Core", "0478 P1 from 2023" — a paper row's natural key. */
+export function paperKey(
+  code: string,
+  paper: { paper_number: string; tier: string | null; valid_from: number | null }
+): string {
+  return [
+    code,
+    `P${paper.paper_number}`,
+    paper.tier,
+    paper.valid_from != null ? `from ${paper.valid_from}` : null,
+  ].filter(Boolean).join(' ')
+}
+
+/** "0625 MJ 2024 Extended BY A*" — a subject_thresholds row's natural key. */
+export function thresholdKey(
+  code: string,
+  row: { season: string; year: number; tier: string | null; option_code: string | null; grade: string }
+): string {
+  return [code, row.season, row.year, row.tier, row.option_code ?? '—', row.grade].filter(Boolean).join(' ')
+}
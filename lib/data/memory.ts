@@ -0,0 +1,154 @@
+import type { Series, Tier } from '@/types'
+import { DEFAULT_GRADING_SCALE } from '@/lib/grades'
+import type {
+  Repositories,
+  SavedEstimateRecord,
+  SeriesThresholdRow,
+  SubjectDetail,
+  SubjectThresholdRow,
+  UmsConversionRow,
+} from './repositories'
+
+/**
+ * Rows for the in-memory repositories, shaped like the database tables they
+ * stand in for. Ids are whatever the caller chose; they only need to agree
+ * across tables.
+ */
+export interface MemoryData {
+  subjects: SubjectDetail[]
+  series: Series[]
+  subjectThresholds: (SubjectThresholdRow & {
+    subject_id: string
+    tier: Tier | null
+    option_code: string
+    is_default: boolean
+  })[]
+  componentThresholds: (SeriesThresholdRow & { paper_id: string })[]
+  endorsementThresholds: (SeriesThresholdRow & { paper_id: string })[]
+  umsConversions: (UmsConversionRow & { paper_id: string })[]
+}
+
+type StoredEstimate = SavedEstimateRecord & { user_id: string | null; session_id: string | null }
+
+/**
+ * Repositories over plain arrays: the file data source's, and a fake for
+ * tests. Saved estimates live for the lifetime of the returned object.
+ */
+export function createMemoryRepositories(data: Partial<MemoryData> = {}): Repositories {
+  const {
+    subjects = [],
+    series = [],
+    subjectThresholds = [],
+    componentThresholds = [],
+    endorsementThresholds = [],
+    umsConversions = [],
+  } = data
+  const estimates: StoredEstimate[] = []
+
+  const forSeries = <T extends { series_id: string }>(rows: T[], seriesIds: string[]) =>
+    rows.filter((r) => seriesIds.includes(r.series_id))
+
+  return {
+    subjects: {
+      async list() {
+        return subjects
+          .map(({ id, syllabus_code, name, has_tiers, grading_scale }) => ({ id, syllabus_code, name, has_tiers, grading_scale }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      },
+
+      async getByCode(code) {
+        return subjects.find((s) => s.syllabus_code === code) ?? null
+      },
+    },
+
+    thresholds: {
+      async listSeries(seasons, version) {
+        return series
+          .filter((s) =>
+            seasons.includes(s.season) &&
+            (version?.valid_from == null || s.year >= version.valid_from) &&
+            (version?.valid_to == null || s.year <= version.valid_to)
+          )
+          .sort((a, b) => b.year - a.year)
+      },
+
+      async subjectThresholds(subjectId, seriesIds, tier, optionCode) {
+        return forSeries(subjectThresholds, seriesIds)
+          .filter((r) =>
+            r.subject_id === subjectId &&
+            r.tier === tier &&
+            (optionCode ? r.option_code === optionCode : r.is_default)
+          )
+          .map(({ grade, min_mark, max_mark, series_id, source_url }) => ({ grade, min_mark, max_mark, series_id, source_url }))
+      },
+
+      async componentThresholds(paperId, seriesIds) {
+        return forSeries(componentThresholds, seriesIds)
+          .filter((r) => r.paper_id === paperId)
+          .map(({ grade, min_mark, series_id }) => ({ grade, min_mark, series_id }))
+      },
+
+      async endorsementThresholds(paperId, seriesIds) {
+        return forSeries(endorsementThresholds, seriesIds)
+          .filter((r) => r.paper_id === paperId)
+          .map(({ grade, min_mark, series_id }) => ({ grade, min_mark, series_id }))
+      },
+
+      async umsConversions(paperId) {
+        return umsConversions
+          .filter((r) => r.paper_id === paperId)
+          .map(({ raw_mark, ums_mark, series }) => ({ raw_mark, ums_mark, series }))
+      },
+    },
+
+    estimates: {
+      async list(owner) {
+        return estimates
+          .filter((e) => ('user_id' in owner
+            ? e.user_id === owner.user_id
+            : e.session_id === owner.session_id && e.user_id === null))
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(({ user_id: _user, session_id: _session, ...record }) => record)
+      },
+
+      async create(owner, estimate) {
+        const id = crypto.randomUUID()
+        estimates.push({
+          id,
+          user_id: 'user_id' in owner ? owner.user_id : null,
+          session_id: 'user_id' in owner ? null : owner.session_id,
+          label: estimate.label,
+          created_at: new Date().toISOString(),
+          result: estimate.result,
+          estimate_entries: estimate.entries.map((e) => {
+            const subject = subjects.find((s) => s.id === e.subject_id)
+            return {
+              id: crypto.randomUUID(),
+              subject_id: e.subject_id,
+              tier_selected: e.tier_selected,
+              option_code: e.option_code ?? null,
+              grading_scale: e.grading_scale ?? DEFAULT_GRADING_SCALE,
+              paper_marks: e.paper_marks,
+              subjects: subject ? { syllabus_code: subject.syllabus_code, name: subject.name } : null,
+            }
+          }),
+        })
+        return id
+      },
+
+      async delete(id, userId) {
+        const index = estimates.findIndex((e) => e.id === id && e.user_id === userId)
+        if (index >= 0) estimates.splice(index, 1)
+      },
+
+      async claim(sessionId, userId) {
+        for (const e of estimates) {
+          if (e.session_id === sessionId && e.user_id === null) {
+            e.user_id = userId
+            e.session_id = null
+          }
+        }
+      },
+    },
+  }
+}
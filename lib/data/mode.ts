@@ -0,0 +1,11 @@
+/**
+ * Where estimator data comes from, set by NEXT_PUBLIC_DATA_SOURCE:
+ *   supabase — the Supabase project (default)
+ *   file     — data/subjects/*.json and scripts/parsed/*.json, no database.
+ *              Accounts, saved estimates and analytics are unavailable.
+ * Public so client components can hide account features in file mode.
+ */
+export type DataSourceKind = 'supabase' | 'file'
+
+export const DATA_SOURCE: DataSourceKind =
+  process.env.NEXT_PUBLIC_DATA_SOURCE === 'file' ? 'file' : 'supabase'
@@ -0,0 +1,44 @@
+/**
+ * Rows the threshold parser writes to scripts/parsed/*.json. The seeder reads
+ * them into the database and the file data source serves them directly.
+ */
+
+export interface ParsedThreshold {
+  syllabus_code: string
+  season: 'FM' | 'MJ' | 'ON'
+  year: number
+  tier: 'Core' | 'Extended' | null
+  option_code: string
+  components: string[] // component codes sat under this option, e.g. ['22', '42', '62']
+  is_default: boolean // the option used when a student doesn't pick one
+  max_mark: number
+  grades: { grade: string; min_mark: number }[]
+  source?: ThresholdSource // absent in parses from before provenance was recorded
+}
+
+export interface ThresholdSource {
+  url: string | null // Cambridge PDF the row was read from; null when not in the scraper manifest
+  sha256: string
+  format: string // THRESHOLD_FORMATS entry that read the overall table
+  parsed_at: string
+}
+
+export interface ParsedComponent {
+  syllabus_code: string
+  season: 'FM' | 'MJ' | 'ON'
+  year: number
+  component_code: string
+  paper_number: string
+  max_mark: number
+  grades: { grade: string; min_mark: number }[]
+}
+
+export interface ParsedEndorsement {
+  syllabus_code: string
+  season: 'FM' | 'MJ' | 'ON'
+  year: number
+  component_code: string
+  paper_number: string
+  max_mark: number
+  grades: { grade: 'Distinction' | 'Merit' | 'Pass'; min_mark: number }[]
+}
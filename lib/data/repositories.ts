@@ -0,0 +1,115 @@
+import type {
+  EstimateResult,
+  GradingScale,
+  Paper,
+  PaperMarkEntry,
+  Season,
+  Series,
+  Subject,
+  SubjectEstimateInput,
+  SyllabusOption,
+  SyllabusVersion,
+  Tier,
+} from '@/types'
+
+/**
+ * The repositories the app reads and writes through. Implementations:
+ * supabase.ts (the database), memory.ts (plain arrays — file data mode and
+ * tests). The calculation engine depends only on ThresholdRepository.
+ */
+
+// ── Rows ─────────────────────────────────────────────────────────────────────
+
+export interface SubjectDetail extends Subject {
+  papers: Omit<Paper, 'subject_id'>[]
+  options: Omit<SyllabusOption, 'subject_id'>[]
+}
+
+export interface SeriesThresholdRow {
+  grade: string
+  min_mark: number
+  series_id: string
+}
+
+export interface SubjectThresholdRow extends SeriesThresholdRow {
+  max_mark: number
+  source_url: string | null
+}
+
+export interface UmsConversionRow {
+  raw_mark: number
+  ums_mark: number
+  series: { year: number; season: Season }
+}
+
+/** A saved estimate as the dashboard lists it, entries and their subjects included. */
+export interface SavedEstimateRecord {
+  id: string
+  label: string | null
+  created_at: string
+  result: EstimateResult | null
+  estimate_entries: {
+    id: string
+    subject_id: string
+    tier_selected: Tier | null
+    option_code: string | null
+    grading_scale: GradingScale
+    paper_marks: PaperMarkEntry[]
+    subjects: { syllabus_code: string; name: string } | null
+  }[]
+}
+
+/** Who an estimate belongs to: a signed-in user, or a guest's browser session until claimed. */
+export type EstimateOwner = { user_id: string } | { session_id: string }
+
+export interface NewEstimate {
+  label: string | null
+  result: EstimateResult
+  entries: Pick<SubjectEstimateInput, 'subject_id' | 'tier_selected' | 'option_code' | 'grading_scale' | 'paper_marks'>[]
+}
+
+// ── Repositories ─────────────────────────────────────────────────────────────
+
+/** Lookups throw on failure so routes can report it. */
+export interface SubjectRepository {
+  list(): Promise<Subject[]>
+  /** The subject with its papers and syllabus options; null when the code is unknown. */
+  getByCode(code: string): Promise<SubjectDetail | null>
+}
+
+/**
+ * Boundary data. Lookups return [] on failure, since a subject without
+ * boundary data still gets a (gradeless) estimate.
+ */
+export interface ThresholdRepository {
+  /** Series of the given seasons within a syllabus version's exam years, newest first. */
+  listSeries(seasons: Season[], version: SyllabusVersion | null): Promise<Series[]>
+  /** Overall boundaries for one tier and option; the default option when optionCode is null. */
+  subjectThresholds(
+    subjectId: string,
+    seriesIds: string[],
+    tier: Tier | null,
+    optionCode: string | null
+  ): Promise<SubjectThresholdRow[]>
+  componentThresholds(paperId: string, seriesIds: string[]): Promise<SeriesThresholdRow[]>
+  endorsementThresholds(paperId: string, seriesIds: string[]): Promise<SeriesThresholdRow[]>
+  umsConversions(paperId: string): Promise<UmsConversionRow[]>
+}
+
+/** Saved estimates. Writes throw on failure. */
+export interface EstimateRepository {
+  /** The owner's estimates, newest first; a guest session only sees estimates not yet claimed. */
+  list(owner: EstimateOwner): Promise<SavedEstimateRecord[]>
+  /** Saves the estimate and its entries together, returning the new id. */
+  create(owner: EstimateOwner, estimate: NewEstimate): Promise<string>
+  /** Deletes one of the user's estimates; a no-op for anyone else's. */
+  delete(id: string, userId: string): Promise<void>
+  /** Moves a guest session's unclaimed estimates to the user. */
+  claim(sessionId: string, userId: string): Promise<void>
+}
+
+export interface Repositories {
+  subjects: SubjectRepository
+  thresholds: ThresholdRepository
+  estimates: EstimateRepository
+}
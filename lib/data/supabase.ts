@@ -0,0 +1,215 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '@/types/database'
+import { DEFAULT_GRADING_SCALE } from '@/lib/grades'
+import type {
+  EstimateOwner,
+  EstimateRepository,
+  Repositories,
+  SavedEstimateRecord,
+  SubjectRepository,
+  ThresholdRepository,
+} from './repositories'
+
+type Client = SupabaseClient<Database>
+
+function subjectRepository(supabase: Client): SubjectRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('subjects')
+        .select('id, syllabus_code, name, has_tiers, grading_scale')
+        .order('name')
+
+      if (error) throw new Error(error.message)
+      return data
+    },
+
+    async getByCode(code) {
+      const { data: subject, error: subjectError } = await supabase
+        .from('subjects')
+        .select('id, syllabus_code, name, has_tiers, grading_scale')
+        .eq('syllabus_code', code)
+        .maybeSingle()
+
+      if (subjectError) throw new Error(subjectError.message)
+      if (!subject) return null
+
+      const { data: papers, error: papersError } = await supabase
+        .from('papers')
+        .select(
+          'id, paper_number, name, tier, is_ums, max_raw_mark, max_ums_mark, weight_percentage, paper_group, option_codes, is_endorsement, valid_from, valid_to'
+        )
+        .eq('subject_id', subject.id)
+        .order('paper_number')
+
+      if (papersError) throw new Error(papersError.message)
+
+      const { data: options, error: optionsError } = await supabase
+        .from('syllabus_options')
+        .select('id, tier, option_code, name, components, is_default')
+        .eq('subject_id', subject.id)
+        .order('option_code')
+
+      if (optionsError) throw new Error(optionsError.message)
+
+      return { ...subject, papers, options }
+    },
+  }
+}
+
+function thresholdRepository(supabase: Client): ThresholdRepository {
+  return {
+    async listSeries(seasons, version) {
+      let query = supabase
+        .from('series')
+        .select('id, year, season')
+        .in('season', seasons)
+
+      if (version?.valid_from != null) query = query.gte('year', version.valid_from)
+      if (version?.valid_to != null) query = query.lte('year', version.valid_to)
+
+      const { data, error } = await query.order('year', { ascending: false })
+      return error || !data ? [] : data
+    },
+
+    async subjectThresholds(subjectId, seriesIds, tier, optionCode) {
+      let query = supabase
+        .from('subject_thresholds')
+        .select('grade, min_mark, max_mark, series_id, source_url')
+        .eq('subject_id', subjectId)
+        .in('series_id', seriesIds)
+
+      // Supabase builder methods return new objects — must reassign
+      query = tier ? query.eq('tier', tier) : query.is('tier', null)
+      query = optionCode ? query.eq('option_code', optionCode) : query.eq('is_default', true)
+
+      const { data, error } = await query
+      return error || !data ? [] : data
+    },
+
+    async componentThresholds(paperId, seriesIds) {
+      const { data, error } = await supabase
+        .from('grade_thresholds')
+        .select('grade, min_mark, series_id')
+        .eq('paper_id', paperId)
+        .in('series_id', seriesIds)
+
+      return error || !data ? [] : data
+    },
+
+    async endorsementThresholds(paperId, seriesIds) {
+      const { data, error } = await supabase
+        .from('endorsement_thresholds')
+        .select('grade, min_mark, series_id')
+        .eq('paper_id', paperId)
+        .in('series_id', seriesIds)
+
+      return error || !data ? [] : data
+    },
+
+    async umsConversions(paperId) {
+      const { data, error } = await supabase
+        .from('ums_conversions')
+        .select('raw_mark, ums_mark, series:series_id(year, season)')
+        .eq('paper_id', paperId)
+
+      return error || !data ? [] : data
+    },
+  }
+}
+
+function estimateRepository(supabase: Client): EstimateRepository {
+  const owned = (owner: EstimateOwner) =>
+    'user_id' in owner
+      ? { user_id: owner.user_id, session_id: null }
+      : { user_id: null, session_id: owner.session_id }
+
+  return {
+    async list(owner) {
+      let query = supabase
+        .from('saved_estimates')
+        .select(`
+          id, label, created_at, result,
+          estimate_entries (
+            id, subject_id, tier_selected, option_code, grading_scale, paper_marks,
+            subjects ( syllabus_code, name )
+          )
+        `)
+        .order('created_at', { ascending: false })
+
+      query = 'user_id' in owner
+        ? query.eq('user_id', owner.user_id)
+        : query.eq('session_id', owner.session_id).is('user_id', null)
+
+      const { data, error } = await query
+      if (error) throw new Error(error.message)
+      // result and paper_marks are jsonb, written by create() below
+      return data as unknown as SavedEstimateRecord[]
+    },
+
+    async create(owner, estimate) {
+      // Create the parent estimate record
+      const { data: saved, error: estimateError } = await supabase
+        .from('saved_estimates')
+        .insert({
+          ...owned(owner),
+          label: estimate.label,
+          result: estimate.result as unknown as Json,
+        })
+        .select('id')
+        .single()
+
+      if (estimateError || !saved) throw new Error(estimateError?.message ?? 'Insert failed')
+
+      if (estimate.entries.length > 0) {
+        const { error: entriesError } = await supabase.from('estimate_entries').insert(
+          estimate.entries.map((e) => ({
+            estimate_id: saved.id,
+            subject_id: e.subject_id,
+            tier_selected: e.tier_selected,
+            option_code: e.option_code ?? null,
+            grading_scale: e.grading_scale ?? DEFAULT_GRADING_SCALE,
+            paper_marks: e.paper_marks as unknown as Json,
+          }))
+        )
+
+        if (entriesError) {
+          // Roll back the estimate header
+          await supabase.from('saved_estimates').delete().eq('id', saved.id)
+          throw new Error(entriesError.message)
+        }
+      }
+
+      return saved.id
+    },
+
+    async delete(id, userId) {
+      const { error } = await supabase
+        .from('saved_estimates')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+
+      if (error) throw new Error(error.message)
+    },
+
+    async claim(sessionId, userId) {
+      const { error } = await supabase
+        .from('saved_estimates')
+        .update({ user_id: userId, session_id: null })
+        .eq('session_id', sessionId)
+        .is('user_id', null)
+
+      if (error) throw new Error(error.message)
+    },
+  }
+}
+
+/** Repositories over a Supabase project; RLS applies as the client's user. */
+export function createSupabaseRepositories(supabase: Client): Repositories {
+  return {
+    subjects: subjectRepository(supabase),
+    thresholds: thresholdRepository(supabase),
+    estimates: estimateRepository(supabase),
+  }
+}
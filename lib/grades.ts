@@ -0,0 +1,64 @@
+import type { DoubleGrade, Grade, GradePair, GradingScale, LetterGrade } from '@/types'
+
+/**
+ * Grading scales. Every subject is graded on one scale — A*–G, 9–1 or the
+ * double-award A*A*–GG — and all share U for marks below the lowest boundary.
+ * Grades are listed best first; U is never part of a scale's list since no
+ * boundary is published for it.
+ */
+export const GRADING_SCALES: Record<GradingScale, Exclude<Grade, 'U'>[]> = {
+  'A*-G':    ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G'],
+  '9-1':     ['9', '8', '7', '6', '5', '4', '3', '2', '1'],
+  'A*A*-GG': ['A*A*', 'A*A', 'AA', 'AB', 'BB', 'BC', 'CC', 'CD', 'DD', 'DE', 'EE', 'EF', 'FF', 'FG', 'GG'],
+}
+
+export const DEFAULT_GRADING_SCALE: GradingScale = 'A*-G'
+
+// Cambridge's published alignment between the scales, used for colours and labels only
+const LETTER_EQUIVALENT: Record<Exclude<Grade, DoubleGrade>, LetterGrade | 'U'> = {
+  'A*': 'A*', 'A': 'A', 'B': 'B', 'C': 'C', 'D': 'D', 'E': 'E', 'F': 'F', 'G': 'G',
+  '9': 'A*', '8': 'A*', '7': 'A', '6': 'B', '5': 'C', '4': 'C', '3': 'D', '2': 'E', '1': 'G',
+  'U': 'U',
+}
+
+export function gradesFor(scale: GradingScale = DEFAULT_GRADING_SCALE): Exclude<Grade, 'U'>[] {
+  return GRADING_SCALES[scale]
+}
+
+export function isGradingScale(value: unknown): value is GradingScale {
+  return typeof value === 'string' && value in GRADING_SCALES
+}
+
+export function isGrade(value: unknown): value is Grade {
+  return value === 'U' || Object.values(GRADING_SCALES).some((grades) => (grades as unknown[]).includes(value))
+}
+
+/** Splits a double-award grade into its two letters, e.g. AB → [A, B]; null for any other grade. */
+export function splitDoubleGrade(grade: Grade | null): GradePair | null {
+  if (!grade || !(GRADING_SCALES['A*A*-GG'] as Grade[]).includes(grade)) return null
+  const first = grade.startsWith('A*') ? 'A*' : grade[0]
+  return [first as LetterGrade, grade.slice(first.length) as LetterGrade]
+}
+
+/** The A*–G grade a grade sits alongside, e.g. 7 → A; a double award takes its first letter. */
+export function letterEquivalent(grade: Grade): LetterGrade | 'U' {
+  const pair = splitDoubleGrade(grade)
+  return pair ? pair[0] : LETTER_EQUIVALENT[grade as Exclude<Grade, DoubleGrade>]
+}
+
+/**
+ * Orders grades best first, across scales: each grade is placed by its
+ * position within its own scale, so a 9 and an A* sort together and U last.
+ */
+export function compareGrades(a: Grade, b: Grade): number {
+  return gradeStrength(b) - gradeStrength(a)
+}
+
+/** 1 for a scale's top grade down towards 0 for its lowest; U is 0. */
+function gradeStrength(grade: Grade): number {
+  for (const grades of Object.values(GRADING_SCALES)) {
+    const i = (grades as Grade[]).indexOf(grade)
+    if (i !== -1) return 1 - i / grades.length
+  }
+  return 0
+}
@@ -0,0 +1,36 @@
+import type { PaperMarkEntry, QuestionMark } from '@/types'
+
+/**
+ * Question-level mark entry. A paper's mark can be built up question by
+ * question from the mark scheme; the rows travel on the PaperMarkEntry (and
+ * so are saved in paper_marks) and the paper's raw_mark is their total.
+ */
+
+/** Sum of the filled-in rows; -1 (no mark) when none are filled in. */
+export function questionTotal(questions: QuestionMark[]): number {
+  const filled = questions.filter((q) => q.mark >= 0)
+  return filled.length === 0 ? -1 : filled.reduce((sum, q) => sum + q.mark, 0)
+}
+
+/** Why a paper's breakdown can't be accepted, or null when it's fine or there isn't one. */
+export function breakdownError(
+  pm: Pick<PaperMarkEntry, 'raw_mark' | 'max_raw_mark' | 'questions'>
+): string | null {
+  const { questions } = pm
+  if (!questions) return null
+
+  if (!Array.isArray(questions) || questions.some((q) => typeof q.question !== 'string' || !Number.isInteger(q.mark))) {
+    return 'Question rows need a question number and a whole-number mark'
+  }
+
+  // -1 is the only negative: a row not filled in yet
+  if (questions.some((q) => q.mark < -1)) return 'Question marks cannot be negative'
+
+  const labels = questions.map((q) => q.question.trim()).filter(Boolean)
+  if (new Set(labels).size < labels.length) return 'Each question can only be listed once'
+
+  const total = questionTotal(questions)
+  if (total > pm.max_raw_mark) return `Questions add up to ${total}, more than the paper's ${pm.max_raw_mark}`
+  if (total !== pm.raw_mark) return `Questions add up to ${total < 0 ? 'nothing' : total}, not the ${pm.raw_mark} entered`
+  return null
+}
@@ -0,0 +1,58 @@
+import type { SyllabusVersion } from '@/types'
+
+/**
+ * Syllabus versions. When Cambridge restructures a syllabus (e.g. 0478 moving
+ * to two 75-mark papers from 2023), each paper records the exam years it is
+ * valid for; null at either end is open-ended. A version is one such year
+ * range, and the papers sat under it are those valid for all of it.
+ */
+
+type Versioned = { valid_from?: number | null; valid_to?: number | null }
+
+export function isValidIn(paper: Versioned, year: number): boolean {
+  return (paper.valid_from == null || year >= paper.valid_from) &&
+    (paper.valid_to == null || year <= paper.valid_to)
+}
+
+/** Distinct versions across a subject's papers, newest first; empty when the syllabus never changed. */
+export function syllabusVersions(papers: Versioned[]): SyllabusVersion[] {
+  const versions = new Map<string, SyllabusVersion>()
+  for (const p of papers) {
+    if (p.valid_from == null && p.valid_to == null) continue
+    const version = { valid_from: p.valid_from ?? null, valid_to: p.valid_to ?? null }
+    versions.set(versionKey(version), version)
+  }
+  return [...versions.values()].sort((a, b) => (b.valid_from ?? 0) - (a.valid_from ?? 0))
+}
+
+/** Whether a paper is sat under the version, i.e. valid for every year it covers. */
+export function inVersion(paper: Versioned, version: SyllabusVersion | null): boolean {
+  if (!version) return true
+  const fromOk = paper.valid_from == null || (version.valid_from !== null && version.valid_from >= paper.valid_from)
+  const toOk = paper.valid_to == null || (version.valid_to !== null && version.valid_to <= paper.valid_to)
+  return fromOk && toOk
+}
+
+/** The year range shared by every paper entered; null when none of them is versioned. */
+export function versionOf(papers: Versioned[]): SyllabusVersion | null {
+  const froms = papers.map((p) => p.valid_from).filter((y): y is number => y != null)
+  const tos = papers.map((p) => p.valid_to).filter((y): y is number => y != null)
+  if (froms.length === 0 && tos.length === 0) return null
+  return {
+    valid_from: froms.length > 0 ? Math.max(...froms) : null,
+    valid_to: tos.length > 0 ? Math.min(...tos) : null,
+  }
+}
+
+export function versionKey(version: SyllabusVersion): string {
+  return `${version.valid_from ?? ''}-${version.valid_to ?? ''}`
+}
+
+/** "2023 onwards", "Up to 2022", "2020–2022" */
+export function versionLabel(version: SyllabusVersion): string {
+  const { valid_from: from, valid_to: to } = version
+  if (from !== null && to !== null) return from === to ? `${from} only` : `${from}–${to}`
+  if (from !== null) return `${from} onwards`
+  if (to !== null) return `Up to ${to}`
+  return 'All years'
+}
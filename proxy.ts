@@ -1,7 +1,19 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { DATA_SOURCE } from '@/lib/data/mode'
 
 export async function proxy(request: NextRequest) {
+  // File data mode has no Supabase project, so no accounts: send account pages to the estimator
+  if (DATA_SOURCE === 'file') {
+    const path = request.nextUrl.pathname
+    if (path.startsWith('/dashboard') || path.startsWith('/auth/')) {
+      const url = request.nextUrl.clone()
+      url.pathname = '/estimate'
+      return NextResponse.redirect(url)
+    }
+    return NextResponse.next({ request })
+  }
+
   let supabaseResponse = NextResponse.next({ request })
 
   const supabase = createServerClient(
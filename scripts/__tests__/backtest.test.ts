@@ -0,0 +1,56 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ParsedThreshold } from '@/lib/data/parsed'
+import { backtest } from '../backtest.js'
+
+function row(year: number, a: number, b: number, isDefault = true): ParsedThreshold {
+  return {
+    syllabus_code: '0580',
+    season:        'MJ',
+    year,
+    tier:          null,
+    option_code:   isDefault ? 'AX' : 'BX',
+    components:    ['12', '32'],
+    is_default:    isDefault,
+    max_mark:      100,
+    grades:        [{ grade: 'A', min_mark: a }, { grade: 'B', min_mark: b }],
+  }
+}
+
+// Both boundaries rise two marks a year
+const history = [row(2021, 70, 60), row(2022, 72, 62), row(2023, 74, 64)]
+
+describe('backtest', () => {
+  test('reports mean boundary error and misclassification per strategy', () => {
+    const { rows } = backtest(history, 5)
+    const recency = rows.find((r) => r.strategy === 'recency')
+    const regression = rows.find((r) => r.strategy === 'regression')
+
+    // recency misses by 2 on both boundaries in 2022 and by 2.7 in 2023;
+    // 8 then 10 of the 201 grid scores land in the gap between predicted and real
+    assert.deepEqual(recency?.series_tested, [2022, 2023])
+    assert.equal(recency?.boundaries_tested, 4)
+    assert.equal(recency?.mean_abs_error, 2.35)
+    assert.equal(recency?.misclassification_rate, 0.0448)
+
+    // regression has a trend to follow from 2023 on
+    assert.equal(regression?.mean_abs_error, 1)
+    assert.equal(regression?.misclassification_rate, 0.0199)
+  })
+
+  test('ranks the summary by mean absolute error', () => {
+    const { summary } = backtest(history, 5)
+    assert.equal(summary[0].strategy, 'regression')
+    assert.ok(summary.every((s, i) => i === 0 || s.mean_abs_error >= summary[i - 1].mean_abs_error))
+  })
+
+  test('predicts only from the most recent numYears series', () => {
+    const recency = backtest(history, 1).rows.find((r) => r.strategy === 'recency')
+    assert.equal(recency?.mean_abs_error, 2)
+  })
+
+  test('ignores non-default options', () => {
+    const { rows } = backtest([...history, row(2024, 20, 10, false)], 5)
+    assert.ok(rows.every((r) => !r.series_tested.includes(2024)))
+  })
+})
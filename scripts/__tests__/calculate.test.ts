@@ -0,0 +1,227 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { PaperMarkEntry, SubjectEstimateInput } from '@/types'
+import { createMemoryRepositories, type MemoryData } from '@/lib/data/memory'
+import { calculateEstimate, loadSubjectThresholdData, reverseEstimate } from '@/lib/calculation/calculate'
+import { estimateSubject, reverseCalculate, reverseSubject } from '@/lib/calculation/core'
+
+// One untiered subject, two equally weighted papers, boundaries out of 200 overall
+const DATA: Partial<MemoryData> = {
+  series: [
+    { id: 's23', year: 2023, season: 'MJ' },
+    { id: 's24', year: 2024, season: 'MJ' },
+  ],
+  subjectThresholds: ['s23', 's24'].flatMap((series_id) =>
+    ([['A', 140], ['B', 120], ['C', 100]] as const).map(([grade, min_mark]) => ({
+      subject_id: 'sub',
+      series_id,
+      tier: null,
+      option_code: 'AX',
+      is_default: true,
+      grade,
+      min_mark,
+      max_mark: 200,
+      source_url: null,
+    }))
+  ),
+  componentThresholds: [
+    { paper_id: 'p1', series_id: 's24', grade: 'A', min_mark: 60 },
+    { paper_id: 'p1', series_id: 's24', grade: 'B', min_mark: 50 },
+  ],
+  umsConversions: [
+    { paper_id: 'p2', raw_mark: 0, ums_mark: 0, series: { year: 2024, season: 'MJ' } },
+    { paper_id: 'p2', raw_mark: 50, ums_mark: 80, series: { year: 2024, season: 'MJ' } },
+    { paper_id: 'p2', raw_mark: 100, ums_mark: 100, series: { year: 2024, season: 'MJ' } },
+  ],
+}
+
+function paper(id: string, rawMark: number, extra: Partial<PaperMarkEntry> = {}): PaperMarkEntry {
+  return {
+    paper_id:          id,
+    paper_number:      id.slice(1),
+    paper_name:        `Paper ${id.slice(1)}`,
+    raw_mark:          rawMark,
+    max_raw_mark:      100,
+    weight_percentage: 50,
+    is_ums:            false,
+    ...extra,
+  }
+}
+
+function entry(paperMarks: PaperMarkEntry[]): SubjectEstimateInput {
+  return {
+    subject_id:    'sub',
+    subject_code:  '0000',
+    subject_name:  'Test Subject',
+    tier_selected: null,
+    paper_marks:   paperMarks,
+  }
+}
+
+describe('calculateEstimate', () => {
+  test('grades the weighted total against the repository boundaries', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const result = await calculateEstimate(thresholds, [entry([paper('p1', 65), paper('p2', 55)])], 'MJ')
+    const [subject] = result.entries
+
+    assert.equal(subject.weighted_total_pct, 60)
+    assert.equal(subject.estimated_grade, 'B')
+    assert.deepEqual(subject.thresholds.map((t) => [t.grade, t.averaged_pct]), [['A', 70], ['B', 60], ['C', 50]])
+    assert.equal(subject.paper_results.find((p) => p.paper_id === 'p1')?.estimated_grade, 'A')
+  })
+
+  test('converts UMS papers with the stored conversion table', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const ums = paper('p2', 50, { is_ums: true, max_ums_mark: 100 })
+    const result = await calculateEstimate(thresholds, [entry([paper('p1', 60), ums])], 'MJ')
+
+    // 60% on paper 1 and 80 UMS on paper 2
+    assert.equal(result.entries[0].weighted_total_pct, 70)
+    assert.equal(result.entries[0].estimated_grade, 'A')
+  })
+
+  test('returns no grade when the repository has no boundaries', async () => {
+    const { thresholds } = createMemoryRepositories()
+    const result = await calculateEstimate(thresholds, [entry([paper('p1', 65), paper('p2', 55)])], 'MJ')
+    assert.equal(result.entries[0].estimated_grade, null)
+  })
+})
+
+describe('sensitivity', () => {
+  async function sensitivity(p1: number, p2: number) {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const result = await calculateEstimate(thresholds, [entry([paper('p1', p1), paper('p2', p2)])], 'MJ')
+    return result.entries[0].sensitivity[0]
+  }
+
+  test('counts the marks to the grade above and the marks to spare', async () => {
+    // 61%: B, with 18 marks on paper 1 to reach A's 70% and 2 to spare above 60%
+    const s = await sensitivity(66, 56)
+    assert.deepEqual(
+      [s.next_grade, s.marks_to_next, s.lower_grade, s.marks_to_drop],
+      ['A', 18, 'C', 2]
+    )
+  })
+
+  test('has no grade above at the top grade', async () => {
+    const s = await sensitivity(90, 90)
+    assert.deepEqual(
+      [s.next_grade, s.marks_to_next, s.lower_grade, s.marks_to_drop],
+      [null, null, 'B', 40]
+    )
+  })
+
+  test('has nothing to drop below the bottom grade', async () => {
+    const s = await sensitivity(20, 20)
+    assert.deepEqual(
+      [s.next_grade, s.marks_to_next, s.lower_grade, s.marks_to_drop],
+      ['C', 60, null, null]
+    )
+  })
+
+  test('is null when one paper alone cannot reach the grade above', async () => {
+    // Paper 1 is already on full marks; only paper 2 can lift 60% to 70%
+    const s = await sensitivity(100, 20)
+    assert.equal(s.next_grade, 'A')
+    assert.equal(s.marks_to_next, null)
+  })
+})
+
+describe('reverseEstimate', () => {
+  test('finds the mark needed on the paper still to sit', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const [result] = await reverseEstimate(thresholds, [{ ...entry([paper('p1', 60), paper('p2', -1)]), target_grade: 'A' }], 'MJ')
+
+    assert.equal(result.achievable, true)
+    assert.equal(result.remaining_papers[0].needed_raw, 80)
+    // Unrounded totals for the trade-off chart, in weighted-percentage points
+    assert.equal(result.banked_weighted, 30)
+    assert.equal(result.target_weighted, 70)
+  })
+
+  test('reads the needed mark on a UMS paper back through its conversion table', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const ums = paper('p2', -1, { is_ums: true, max_ums_mark: 100 })
+    const need = async (target_grade: 'A' | 'B') =>
+      (await reverseEstimate(thresholds, [{ ...entry([paper('p1', 60), ums]), target_grade }], 'MJ'))[0].remaining_papers[0]
+
+    // 80 UMS for an A is 50 raw on the steep part of the table, not 80
+    const forA = await need('A')
+    assert.deepEqual([forA.needed_raw, forA.needed_pct], [50, 50])
+    // 60 UMS for a B falls between points: 38 raw converts to 61, 37 to 59
+    assert.equal((await need('B')).needed_raw, 38)
+  })
+
+  test('reports a target the banked marks already reach', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const [result] = await reverseEstimate(thresholds, [{ ...entry([paper('p1', 100), paper('p2', -1)]), target_grade: 'C' }], 'MJ')
+
+    assert.equal(result.already_secured, true)
+    assert.equal(result.achievable, true)
+    assert.deepEqual(result.remaining_papers, [])
+  })
+
+  test('reports a target out of reach with the marks it would take', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const [result] = await reverseEstimate(thresholds, [{ ...entry([paper('p1', 10), paper('p2', -1)]), target_grade: 'A' }], 'MJ')
+
+    assert.equal(result.achievable, false)
+    assert.equal(result.remaining_papers[0].needed_raw, 130)
+  })
+
+  test('cannot reach a grade the boundaries do not have', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const [result] = await reverseEstimate(thresholds, [{ ...entry([paper('p1', 60), paper('p2', -1)]), target_grade: 'E' }], 'MJ')
+
+    assert.equal(result.achievable, false)
+    assert.equal(result.target_weighted, null)
+  })
+})
+
+describe('calculation core', () => {
+  const input = entry([paper('p1', 65), paper('p2', 55, { is_ums: true, max_ums_mark: 100, raw_mark_low: 40 })])
+
+  test('gives the same result as calculateEstimate from the loaded data', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const { entries: [expected] } = await calculateEstimate(thresholds, [input], 'MJ')
+    const data = await loadSubjectThresholdData(thresholds, input, { season: 'MJ' })
+
+    assert.deepEqual(estimateSubject(input, data), expected)
+  })
+
+  test('gives the same result after the data is sent as JSON', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const data = await loadSubjectThresholdData(thresholds, input, { season: 'MJ' })
+
+    // Marks changed after loading: the data does not depend on them
+    const retyped = entry([paper('p1', 20), paper('p2', 90, { is_ums: true, max_ums_mark: 100 })])
+    const { entries: [expected] } = await calculateEstimate(thresholds, [retyped], 'MJ')
+    assert.deepEqual(estimateSubject(retyped, JSON.parse(JSON.stringify(data))), expected)
+  })
+
+  test('reverseSubject matches reverseEstimate', async () => {
+    const { thresholds } = createMemoryRepositories(DATA)
+    const target = { ...entry([paper('p1', 60), paper('p2', -1)]), target_grade: 'A' as const }
+    const [expected] = await reverseEstimate(thresholds, [target], 'MJ')
+    const data = await loadSubjectThresholdData(thresholds, target, { season: 'MJ' })
+
+    assert.deepEqual(reverseSubject(target, data), expected)
+  })
+})
+
+describe('reverseCalculate', () => {
+  test('rounds the needed raw mark up', () => {
+    // 40 weighted points still needed from a 50% paper out of 77
+    assert.deepEqual(
+      reverseCalculate({ targetGradePct: 70, currentWeightedPct: 30, targetPaperWeight: 50, targetPaperMaxMark: 77 }),
+      { needed_raw: 62, needed_pct: 80, achievable: true }
+    )
+  })
+
+  test('needs nothing once the target is passed', () => {
+    assert.deepEqual(
+      reverseCalculate({ targetGradePct: 50, currentWeightedPct: 55, targetPaperWeight: 50, targetPaperMaxMark: 80 }),
+      { needed_raw: 0, needed_pct: 0, achievable: true }
+    )
+  })
+})
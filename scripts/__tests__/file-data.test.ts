@@ -0,0 +1,121 @@
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { SubjectConfig } from '@/types'
+import type { Repositories } from '@/lib/data/repositories'
+import { fileRepositories } from '@/lib/data/file'
+import type { ParsedComponent, ParsedThreshold } from '@/lib/data/parsed'
+
+const SUBJECT: SubjectConfig = {
+  code:      '0478',
+  name:      'Computer Science',
+  has_tiers: false,
+  papers: [
+    { paper_number: '1', name: 'Paper 1', tier: null, is_ums: false, max_raw_mark: 60, max_ums_mark: null, weight_percentage: 50, paper_group: null, valid_to: 2022 },
+    { paper_number: '1', name: 'Paper 1', tier: null, is_ums: false, max_raw_mark: 75, max_ums_mark: null, weight_percentage: 50, paper_group: null, valid_from: 2023 },
+    { paper_number: '2', name: 'Paper 2', tier: null, is_ums: false, max_raw_mark: 75, max_ums_mark: null, weight_percentage: 50, paper_group: null },
+  ],
+  options: [{ code: 'AX', name: 'Written papers' }],
+}
+
+function threshold(season: ParsedThreshold['season'], year: number, optionCode: string, isDefault: boolean, aStar: number): ParsedThreshold {
+  return {
+    syllabus_code: '0478',
+    season,
+    year,
+    tier:          null,
+    option_code:   optionCode,
+    components:    ['12', '22'],
+    is_default:    isDefault,
+    max_mark:      150,
+    grades:        [{ grade: 'A*', min_mark: aStar }, { grade: 'A', min_mark: aStar - 20 }],
+  }
+}
+
+function component(year: number, code: string, maxMark: number, aStar: number): ParsedComponent {
+  return {
+    syllabus_code:  '0478',
+    season:         'MJ',
+    year,
+    component_code: code,
+    paper_number:   code.charAt(0),
+    max_mark:       maxMark,
+    grades:         [{ grade: 'A*', min_mark: aStar }],
+  }
+}
+
+let root: string
+let repos: Repositories
+
+before(() => {
+  root = mkdtempSync(join(tmpdir(), 'file-data-'))
+  mkdirSync(join(root, 'data', 'subjects'), { recursive: true })
+  mkdirSync(join(root, 'scripts', 'parsed'), { recursive: true })
+
+  writeFileSync(join(root, 'data', 'subjects', '0478.json'), JSON.stringify(SUBJECT))
+  writeFileSync(join(root, 'scripts', 'parsed', 'thresholds.json'), JSON.stringify([
+    threshold('MJ', 2023, 'AX', true, 120),
+    threshold('MJ', 2024, 'AX', true, 124),
+    threshold('MJ', 2024, 'BX', false, 110),
+    threshold('FM', 2024, 'AX', true, 118),
+    { ...threshold('MJ', 2024, 'AX', true, 124), syllabus_code: '9999' }, // no subject JSON
+  ]))
+  writeFileSync(join(root, 'scripts', 'parsed', 'components.json'), JSON.stringify([
+    component(2022, '11', 60, 48),
+    component(2024, '11', 75, 58),
+    component(2024, '12', 75, 62), // second timezone variant of paper 1
+  ]))
+
+  repos = fileRepositories(root)
+})
+
+after(() => rmSync(root, { recursive: true, force: true }))
+
+describe('fileRepositories', () => {
+  test('only serves subjects with a JSON', async () => {
+    assert.deepEqual((await repos.subjects.list()).map((s) => s.id), ['0478'])
+  })
+
+  test('derives paper max marks, option codes and options as the seeder does', async () => {
+    const subject = await repos.subjects.getByCode('0478')
+    assert.ok(subject)
+    assert.deepEqual(
+      subject.papers.map((p) => [p.id, p.max_raw_mark, p.option_codes]),
+      [
+        ['0478 P1', 60, ['AX', 'BX']],
+        ['0478 P1 from 2023', 75, ['AX', 'BX']],
+        ['0478 P2', 75, ['AX', 'BX']],
+      ]
+    )
+    assert.deepEqual(
+      subject.options.map((o) => [o.option_code, o.name, o.is_default]),
+      [['AX', 'Written papers', true], ['BX', null, false]]
+    )
+    assert.equal(await repos.subjects.getByCode('0000'), null)
+  })
+
+  test('lists series newest first within a syllabus version', async () => {
+    const series = await repos.thresholds.listSeries(['MJ'], { valid_from: 2023, valid_to: null })
+    assert.deepEqual(series.map((s) => s.id), ['MJ_2024', 'MJ_2023'])
+  })
+
+  test('reads the default option unless one is given', async () => {
+    const byDefault = await repos.thresholds.subjectThresholds('0478', ['MJ_2024'], null, null)
+    const chosen    = await repos.thresholds.subjectThresholds('0478', ['MJ_2024'], null, 'BX')
+    assert.equal(byDefault.find((r) => r.grade === 'A*')?.min_mark, 124)
+    assert.equal(chosen.find((r) => r.grade === 'A*')?.min_mark, 110)
+  })
+
+  test('averages component variants onto the paper version sat that year', async () => {
+    assert.deepEqual(
+      await repos.thresholds.componentThresholds('0478 P1 from 2023', ['MJ_2022', 'MJ_2024']),
+      [{ grade: 'A*', min_mark: 60, series_id: 'MJ_2024' }]
+    )
+    assert.deepEqual(
+      await repos.thresholds.componentThresholds('0478 P1', ['MJ_2022', 'MJ_2024']),
+      [{ grade: 'A*', min_mark: 48, series_id: 'MJ_2022' }]
+    )
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { backtestForecast, forecastBoundary, seriesTime, type ForecastPoint } from '@/lib/calculation/forecast'
+
+// A boundary rising two points a year
+const rising: ForecastPoint[] = [
+  { year: 2021, pct: 60 },
+  { year: 2022, pct: 62 },
+  { year: 2023, pct: 64 },
+]
+
+describe('forecastBoundary', () => {
+  test('gives each strategy its known forecast for the next year', () => {
+    assert.equal(forecastBoundary(rising, 'recency'), 62.7)
+    assert.equal(forecastBoundary(rising, 'regression'), 66)
+    assert.equal(forecastBoundary(rising, 'smoothing'), 62.5)
+    assert.equal(forecastBoundary(rising, 'median'), 62)
+  })
+
+  test('orders points by series time, whatever order they arrive in', () => {
+    assert.equal(forecastBoundary([...rising].reverse(), 'smoothing'), 62.5)
+    assert.ok(seriesTime(2023, 'FM') < seriesTime(2023, 'MJ'))
+    assert.ok(seriesTime(2023, 'ON') < seriesTime(2024, 'FM'))
+  })
+
+  test('drops zero-weight points', () => {
+    assert.equal(forecastBoundary([...rising, { year: 2024, pct: 90, weight: 0 }], 'median'), 62)
+  })
+
+  test('is 0 with no history', () => {
+    assert.equal(forecastBoundary([], 'recency'), 0)
+  })
+})
+
+describe('backtestForecast', () => {
+  test('averages the walk-forward error of each strategy', () => {
+    assert.equal(backtestForecast(rising, 'recency'), 2.35)
+    assert.equal(backtestForecast(rising, 'regression'), 1)
+  })
+
+  test('is null with fewer than two series', () => {
+    assert.equal(backtestForecast([{ year: 2023, pct: 64 }], 'recency'), null)
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { readFileSync } from 'fs'
+import { TYPES_PATH, applyMigrations, readMigrations, renderDatabaseTypes } from '../gen-db-types.js'
+
+const MIGRATIONS = [
+  `create table if not exists papers (
+    id         uuid primary key default gen_random_uuid(),
+    subject_id uuid not null references subjects(id) on delete cascade,
+    tier       text check (tier in ('Core', 'Extended')),
+    max_mark   integer not null,
+    unique (subject_id, tier)
+  );
+  create policy "Public can read papers" on papers for select using (true);`,
+  `-- Options a paper belongs to; null = every option
+  alter table papers add column if not exists option_codes text[];
+  alter table papers drop constraint if exists papers_tier_check;
+  alter table papers
+    add constraint papers_tier_check
+    check (tier in ('Core', 'Extended', 'Supplement'));`,
+]
+
+describe('applyMigrations', () => {
+  const [papers] = Object.values(applyMigrations(MIGRATIONS))
+
+  test('reads columns, nullability, defaults and foreign keys', () => {
+    assert.deepEqual(papers.map((c) => [c.name, c.type, c.nullable, c.hasDefault]), [
+      ['id',           'string',   false, true],
+      ['subject_id',   'string',   false, false],
+      ['tier',         "'Core' | 'Extended' | 'Supplement'", true, false],
+      ['max_mark',     'number',   false, false],
+      ['option_codes', 'string[]', true,  false],
+    ])
+    assert.deepEqual(papers[1].references, { table: 'subjects', column: 'id' })
+  })
+
+  test('leaves out foreign keys into other schemas', () => {
+    const tables = applyMigrations(['create table user_profiles (id uuid primary key references auth.users(id) on delete cascade);'])
+    assert.equal(tables.user_profiles[0].references, null)
+  })
+})
+
+describe('types/database.ts', () => {
+  test('is up to date with the migrations — run pnpm db:types', () => {
+    assert.equal(readFileSync(TYPES_PATH, 'utf-8'), renderDatabaseTypes(applyMigrations(readMigrations())))
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Parser regression tests.
+ *
+ * Each fixtures/<season>-<year>-<code>.txt is the extracted text of one
+ * Cambridge threshold PDF; its .expected.json is the reviewed output of
+ * parseThresholdText. A parser change that alters any output fails here
+ * before it reaches the seeder.
+ *
+ * Run with: pnpm test
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { readFileSync, readdirSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { GRADING_SCALES } from '@/lib/grades'
+import {
+  componentGradeColumns,
+  detectGradeColumns,
+  extract2022MaxMarks,
+  parseThresholdText,
+} from '../parser.js'
+
+const __dirname    = dirname(fileURLToPath(import.meta.url))
+const FIXTURES_DIR = join(__dirname, 'fixtures')
+
+describe('parseThresholdText', () => {
+  const fixtures = readdirSync(FIXTURES_DIR).filter((f) => f.endsWith('.txt')).sort()
+
+  for (const file of fixtures) {
+    const [season, year, code] = file.replace(/\.txt$/, '').split('-')
+
+    test(file, () => {
+      const text     = readFileSync(join(FIXTURES_DIR, file), 'utf-8')
+      const expected = JSON.parse(readFileSync(join(FIXTURES_DIR, file.replace(/\.txt$/, '.expected.json')), 'utf-8'))
+      const actual   = parseThresholdText(text, code, parseInt(year), season.toUpperCase() as 'FM' | 'MJ' | 'ON')
+
+      assert.deepEqual(actual, expected)
+    })
+  }
+
+  test('throws on a document with no overall table', () => {
+    assert.throws(() => parseThresholdText('Component 12 80 54 47 40', '0450', 2024, 'MJ'), /no overall threshold table/)
+  })
+
+  test('throws on an unrecognised layout', () => {
+    const text = 'The overall thresholds for the different grades were set as follows.\n' +
+      'Option Total A* A B C D E F G\n' +
+      'BY 161 140 122 104 83 63 43 23'
+    assert.throws(() => parseThresholdText(text, '0450', 2024, 'MJ'), /unrecognised layout/)
+  })
+})
+
+describe('grading scales', () => {
+  const parse = (file: string, code: string) =>
+    parseThresholdText(readFileSync(join(FIXTURES_DIR, file), 'utf-8'), code, 2024, 'MJ')
+
+  test('9–1 table', () => {
+    const { thresholds, components } = parse('mj-2024-0970.txt', '0970')
+
+    assert.deepEqual(thresholds[0].grades.map((g) => g.grade), GRADING_SCALES['9-1'])
+    // No 9 at component level
+    assert.deepEqual(components[0].grades.map((g) => g.grade), GRADING_SCALES['9-1'].slice(1))
+  })
+
+  test('A*A*–GG double-award table', () => {
+    const { thresholds, components } = parse('mj-2024-0654.txt', '0654')
+    const extended = thresholds.find((t) => t.tier === 'Extended')
+    const core = thresholds.find((t) => t.tier === 'Core')
+
+    assert.deepEqual(extended?.grades.map((g) => g.grade), GRADING_SCALES['A*A*-GG'].slice(0, 11))
+    assert.deepEqual(core?.grades.map((g) => g.grade), GRADING_SCALES['A*A*-GG'].slice(6))
+    assert.equal(components.find((c) => c.component_code === '62')?.grades[0].grade, 'AA')
+  })
+})
+
+describe('detectGradeColumns', () => {
+  test('A*–G header', () => {
+    assert.deepEqual(detectGradeColumns('Option Max Mark A* A B C D E F G'), GRADING_SCALES['A*-G'])
+  })
+
+  test('A*–E header', () => {
+    assert.deepEqual(detectGradeColumns('Option Max Mark A* A B C D E'), ['A*', 'A', 'B', 'C', 'D', 'E'])
+  })
+
+  test('9–1 header', () => {
+    assert.deepEqual(detectGradeColumns('Option Max Mark 9 8 7 6 5 4 3 2 1'), GRADING_SCALES['9-1'])
+  })
+
+  test('double-award header', () => {
+    assert.deepEqual(detectGradeColumns('Option Max Mark A*A* A*A AA AB BB BC'), GRADING_SCALES['A*A*-GG'])
+  })
+})
+
+describe('componentGradeColumns', () => {
+  test('drops A* from A*–G components', () => {
+    assert.deepEqual(componentGradeColumns('', GRADING_SCALES['A*-G']), ['A', 'B', 'C', 'D', 'E', 'F', 'G'])
+  })
+
+  test('drops every A* grade from double-award components', () => {
+    assert.equal(componentGradeColumns('', GRADING_SCALES['A*A*-GG'])[0], 'AA')
+  })
+
+  test('keeps 9 only when the component header lists it', () => {
+    assert.equal(componentGradeColumns('Component Max 8 7 6', GRADING_SCALES['9-1'])[0], '8')
+    assert.equal(componentGradeColumns('Component Max 9 8 7 6', GRADING_SCALES['9-1'])[0], '9')
+  })
+})
+
+describe('extract2022MaxMarks', () => {
+  test('single value', () => {
+    const text = 'The maximum total mark for this syllabus, after weighting has been applied, is 200.'
+    assert.deepEqual(extract2022MaxMarks(text), { default: 200 })
+  })
+
+  test('one value per tier', () => {
+    const text = 'The maximum total mark for this syllabus, after weighting has been applied, ' +
+      'is 200 for the Extended option and 160 for the Core option.'
+    assert.deepEqual(extract2022MaxMarks(text), { default: 200, Extended: 200, Core: 160 })
+  })
+
+  test('no sentence', () => {
+    assert.equal(extract2022MaxMarks('Grade thresholds for syllabus 0450'), null)
+  })
+})
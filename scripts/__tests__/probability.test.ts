@@ -0,0 +1,46 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Grade, GradeThresholdSummary } from '@/types'
+import { gradeProbabilities } from '@/lib/calculation/probability'
+
+function boundary(grade: Grade, averagedPct: number, history: number[] = [averagedPct]): GradeThresholdSummary {
+  return {
+    grade,
+    averaged_pct: averagedPct,
+    min_pct:      Math.min(...history),
+    max_pct:      Math.max(...history),
+    year_data:    history.map((pct, i) => ({ year: 2020 + i, season: 'MJ' as const, pct, weight: 1 })),
+    strategy:     'recency',
+    backtest_mae: null,
+  }
+}
+
+describe('gradeProbabilities', () => {
+  test('splits evenly between the grade and the one below when exactly on a boundary', () => {
+    assert.deepEqual(gradeProbabilities(70, [boundary('A', 70)]), [
+      { grade: 'A', probability: 0.5 },
+      { grade: 'U', probability: 0.5 },
+    ])
+  })
+
+  test('is certain well clear of every boundary', () => {
+    const thresholds = [boundary('A', 70), boundary('B', 60)]
+    assert.deepEqual(gradeProbabilities(95, thresholds), [{ grade: 'A', probability: 1 }])
+    assert.deepEqual(gradeProbabilities(20, thresholds), [{ grade: 'U', probability: 1 }])
+  })
+
+  test('spreads further when the boundary has moved more between years', () => {
+    const steady = gradeProbabilities(72, [boundary('A', 70, [70, 70, 70])])
+    const volatile = gradeProbabilities(72, [boundary('A', 70, [62, 70, 78])])
+    const pA = (ps: typeof steady) => ps.find((p) => p.grade === 'A')?.probability ?? 0
+
+    assert.ok(pA(steady) > pA(volatile))
+    assert.ok(pA(volatile) > 0.5)
+  })
+
+  test('sums to one across grades', () => {
+    const thresholds = [boundary('A', 70, [66, 72]), boundary('B', 60, [58, 63]), boundary('C', 50, [49, 52])]
+    const total = gradeProbabilities(61, thresholds).reduce((sum, p) => sum + p.probability, 0)
+    assert.ok(Math.abs(total - 1) < 0.01)
+  })
+})
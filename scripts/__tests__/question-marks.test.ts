@@ -0,0 +1,37 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { breakdownError, questionTotal } from '@/lib/question-marks'
+
+describe('questionTotal', () => {
+  test('adds the filled-in rows and skips blanks', () => {
+    assert.equal(questionTotal([{ question: '1', mark: 4 }, { question: '2', mark: -1 }, { question: '3', mark: 6 }]), 10)
+  })
+
+  test('is -1 when nothing is filled in', () => {
+    assert.equal(questionTotal([{ question: '1', mark: -1 }]), -1)
+  })
+})
+
+describe('breakdownError', () => {
+  const questions = [{ question: '1', mark: 30 }, { question: '2', mark: 15 }]
+
+  test('accepts a breakdown that matches the paper mark', () => {
+    assert.equal(breakdownError({ raw_mark: 45, max_raw_mark: 80, questions }), null)
+    assert.equal(breakdownError({ raw_mark: 45, max_raw_mark: 80 }), null)
+  })
+
+  test('rejects totals over the paper maximum or out of step with the mark', () => {
+    assert.match(breakdownError({ raw_mark: 45, max_raw_mark: 40, questions }) ?? '', /more than the paper's 40/)
+    assert.match(breakdownError({ raw_mark: 50, max_raw_mark: 80, questions }) ?? '', /not the 50 entered/)
+  })
+
+  test('rejects negative marks other than the -1 blank', () => {
+    const negative = [{ question: '1', mark: 10 }, { question: '2', mark: -5 }]
+    assert.equal(breakdownError({ raw_mark: 10, max_raw_mark: 80, questions: negative }), 'Question marks cannot be negative')
+  })
+
+  test('rejects a question listed twice', () => {
+    const twice = [{ question: '1', mark: 3 }, { question: ' 1', mark: 2 }]
+    assert.equal(breakdownError({ raw_mark: 5, max_raw_mark: 80, questions: twice }), 'Each question can only be listed once')
+  })
+})
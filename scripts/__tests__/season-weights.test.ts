@@ -0,0 +1,40 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { isSeason, isSeasonWeights, parseSeasonWeights } from '@/lib/calculation/average-thresholds'
+
+describe('isSeason', () => {
+  test('accepts the three exam series only', () => {
+    assert.ok(['FM', 'MJ', 'ON'].every(isSeason))
+    assert.equal(isSeason('mj'), false)
+    assert.equal(isSeason(undefined), false)
+  })
+})
+
+describe('isSeasonWeights', () => {
+  test('accepts finite weights of 0 or more on known seasons', () => {
+    assert.equal(isSeasonWeights({}), true)
+    assert.equal(isSeasonWeights({ FM: 1, ON: 0 }), true)
+  })
+
+  test('rejects strings, negatives, non-finite numbers and unknown seasons', () => {
+    assert.equal(isSeasonWeights({ FM: '1' }), false)
+    assert.equal(isSeasonWeights({ FM: -1 }), false)
+    assert.equal(isSeasonWeights({ FM: Infinity }), false)
+    assert.equal(isSeasonWeights({ SP: 1 }), false)
+    assert.equal(isSeasonWeights([1]), false)
+    assert.equal(isSeasonWeights(null), false)
+  })
+})
+
+describe('parseSeasonWeights', () => {
+  test('parses a weights query parameter', () => {
+    assert.deepEqual(parseSeasonWeights('FM:1,MJ:0.5'), { FM: 1, MJ: 0.5 })
+  })
+
+  test('is null on malformed input', () => {
+    assert.equal(parseSeasonWeights('FM:1,SP:1'), null)
+    assert.equal(parseSeasonWeights('FM:-1'), null)
+    assert.equal(parseSeasonWeights('FM:'), null)
+    assert.equal(parseSeasonWeights('FM'), null)
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { diffRows } from '../seed-diff.js'
+import { paperKey, thresholdKey } from '@/lib/data/keys'
+
+describe('diffRows', () => {
+  test('splits rows into added, changed and removed', () => {
+    const current = {
+      '0450 P1': { name: 'Paper 1', max_raw_mark: 80 },
+      '0450 P2': { name: 'Paper 2', max_raw_mark: 80 },
+      '0450 P3': { name: 'Paper 3', max_raw_mark: 40 },
+    }
+    const desired = {
+      '0450 P1': { name: 'Paper 1', max_raw_mark: 80 },
+      '0450 P2': { name: 'Paper 2: Case Study', max_raw_mark: 80 },
+      '0450 P4': { name: 'Paper 4', max_raw_mark: 60 },
+    }
+
+    assert.deepEqual(diffRows(current, desired, ['name', 'max_raw_mark']), {
+      added:   ['0450 P4'],
+      changed: [{ key: '0450 P2', fields: { name: { before: 'Paper 2', after: 'Paper 2: Case Study' } } }],
+      removed: ['0450 P3'],
+    })
+  })
+
+  test('treats missing and null values as equal', () => {
+    const diff = diffRows({ a: { paper_group: null } }, { a: { paper_group: undefined } }, ['paper_group'])
+    assert.deepEqual(diff.changed, [])
+  })
+
+  test('ignores fields it is not asked to compare', () => {
+    const diff = diffRows({ a: { name: 'x', parsed_at: '2024' } }, { a: { name: 'x', parsed_at: '2025' } }, ['name'])
+    assert.deepEqual(diff.changed, [])
+  })
+})
+
+describe('keys', () => {
+  test('paper keys carry tier and version only when set', () => {
+    assert.equal(paperKey('0625', { paper_number: '5', tier: 'Core', valid_from: null }), '0625 P5 Core')
+    assert.equal(paperKey('0478', { paper_number: '1', tier: null, valid_from: 2023 }), '0478 P1 from 2023')
+  })
+
+  test('threshold keys name the series and option', () => {
+    const key = thresholdKey('0625', { season: 'MJ', year: 2024, tier: 'Extended', option_code: 'BY', grade: 'A*' })
+    assert.equal(key, '0625 MJ 2024 Extended BY A*')
+  })
+})
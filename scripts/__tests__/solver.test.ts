@@ -0,0 +1,64 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { solveTarget, tradeOffCurve, type SolverPaper } from '@/lib/calculation/solver'
+
+function paper(id: string, maxRawMark: number, weight: number): SolverPaper {
+  return { paper_id: id, paper_name: `Paper ${id}`, max_raw_mark: maxRawMark, weight_percentage: weight }
+}
+
+const TWO = [paper('a', 10, 50), paper('b', 10, 50)]
+
+describe('solveTarget', () => {
+  test('needs nothing more when the banked marks already secure the target', () => {
+    assert.deepEqual(solveTarget(TWO, 60, 50), {
+      achievable: true,
+      balanced: { a: 0, b: 0 },
+      combinations: [{ a: 0, b: 0 }],
+      truncated: false,
+    })
+  })
+
+  test('is out of reach when full marks on every paper fall short', () => {
+    assert.deepEqual(solveTarget(TWO, 0, 120), { achievable: false, balanced: null, combinations: [], truncated: false })
+  })
+
+  test('suggests the same percentage on every paper and lists every split', () => {
+    const solution = solveTarget(TWO, 10, 50)
+
+    assert.deepEqual(solution.balanced, { a: 4, b: 4 })
+    assert.equal(solution.truncated, false)
+    assert.equal(solution.combinations.length, 9) // 0–8 on paper a; 9 or more would overshoot
+    assert.deepEqual(solution.combinations[0], { a: 0, b: 8 })
+    assert.ok(solution.combinations.every((c) => c.a * 5 + c.b * 5 >= 40))
+  })
+
+  test('solves a single remaining paper exactly', () => {
+    assert.deepEqual(solveTarget([paper('a', 80, 50)], 30, 50).combinations, [{ a: 32 }])
+  })
+
+  test('flags combinations sampled from a coarsened grid', () => {
+    const solution = solveTarget([paper('a', 300, 50), paper('b', 300, 50)], 0, 50)
+    assert.equal(solution.truncated, true)
+    assert.ok(solution.combinations.length <= 250)
+  })
+})
+
+describe('tradeOffCurve', () => {
+  test('trades marks on the focus paper against the % needed on the rest', () => {
+    const curve = tradeOffCurve(TWO, 'a', 0, 50)
+
+    assert.equal(curve.length, 11)
+    assert.deepEqual(curve[0], { focus_mark: 0, rest_pct: 100, marks: { a: 0, b: 10 } })
+    assert.deepEqual(curve[10], { focus_mark: 10, rest_pct: 0, marks: { a: 10, b: 0 } })
+  })
+
+  test('marks focus marks that leave the target out of reach', () => {
+    const curve = tradeOffCurve(TWO, 'a', 0, 75)
+    assert.equal(curve[4].rest_pct, null)
+    assert.equal(curve[5].rest_pct, 100)
+  })
+
+  test('is empty for an unknown paper', () => {
+    assert.deepEqual(tradeOffCurve(TWO, 'c', 0, 50), [])
+  })
+})
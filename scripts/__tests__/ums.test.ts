@@ -0,0 +1,87 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { PaperMarkEntry } from '@/types'
+import { createMemoryRepositories } from '@/lib/data/memory'
+import { convertRawToUms, fetchUmsConversion, rawMarkForUms, toUmsEntry } from '@/lib/calculation/ums'
+
+// Steep up to 50 raw, flatter above
+const TABLE = [
+  { raw_mark: 100, ums_mark: 100 },
+  { raw_mark: 0, ums_mark: 0 },
+  { raw_mark: 50, ums_mark: 80 },
+]
+
+describe('convertRawToUms', () => {
+  test('reads a mark on a conversion point straight off the table', () => {
+    assert.equal(convertRawToUms(0, TABLE), 0)
+    assert.equal(convertRawToUms(50, TABLE), 80)
+    assert.equal(convertRawToUms(100, TABLE), 100)
+  })
+
+  test('interpolates between points and rounds to a whole mark', () => {
+    assert.equal(convertRawToUms(25, TABLE), 40)
+    assert.equal(convertRawToUms(75, TABLE), 90)
+    assert.equal(convertRawToUms(51, TABLE), 80) // 80.4
+  })
+
+  test('clamps outside the table and passes marks through without one', () => {
+    assert.equal(convertRawToUms(120, TABLE), 100)
+    assert.equal(convertRawToUms(-5, TABLE), 0)
+    assert.equal(convertRawToUms(37, []), 37)
+  })
+})
+
+describe('rawMarkForUms', () => {
+  test('finds the least raw mark that converts to the UMS mark', () => {
+    assert.equal(rawMarkForUms(80, TABLE, 100), 50)
+    assert.equal(rawMarkForUms(60, TABLE, 100), 38) // 37 converts to 59
+    assert.equal(rawMarkForUms(0, TABLE, 100), 0)
+  })
+
+  test('is null when full marks fall short', () => {
+    assert.equal(rawMarkForUms(90, TABLE, 60), null)
+  })
+})
+
+describe('toUmsEntry', () => {
+  const entry: PaperMarkEntry = {
+    paper_id:          'p1',
+    paper_number:      '1',
+    paper_name:        'Paper 1',
+    raw_mark:          25,
+    raw_mark_low:      50,
+    max_raw_mark:      100,
+    weight_percentage: 100,
+    is_ums:            true,
+    max_ums_mark:      100,
+  }
+
+  test('converts the mark, its range and the maximum', () => {
+    const ums = toUmsEntry(entry, TABLE)
+    assert.equal(ums.raw_mark, 40)
+    assert.equal(ums.raw_mark_low, 80)
+    assert.equal(ums.raw_mark_high, undefined)
+    assert.equal(ums.max_raw_mark, 100)
+  })
+
+  test('leaves raw-graded and unsat papers alone', () => {
+    const raw = { ...entry, is_ums: false }
+    const unsat = { ...entry, raw_mark: -1 }
+    assert.equal(toUmsEntry(raw, TABLE), raw)
+    assert.equal(toUmsEntry(unsat, TABLE), unsat)
+  })
+})
+
+describe('fetchUmsConversion', () => {
+  const point = (year: number, season: 'MJ' | 'ON', ums_mark: number) =>
+    ({ paper_id: 'p1', raw_mark: 50, ums_mark, series: { year, season } })
+
+  test('takes the newest table from the requested season, else the newest of any', async () => {
+    const { thresholds } = createMemoryRepositories({
+      umsConversions: [point(2022, 'MJ', 70), point(2023, 'MJ', 75), point(2024, 'ON', 90)],
+    })
+    assert.deepEqual(await fetchUmsConversion(thresholds, 'p1', 'MJ'), [{ raw_mark: 50, ums_mark: 75 }])
+    assert.deepEqual(await fetchUmsConversion(thresholds, 'p1', 'FM'), [{ raw_mark: 50, ums_mark: 90 }])
+    assert.deepEqual(await fetchUmsConversion(thresholds, 'p2', 'MJ'), [])
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { SubjectConfig } from '@/types'
+import type { ParsedThreshold } from '@/lib/data/parsed'
+import { validateThresholds } from '../validate.js'
+
+const SUBJECT: SubjectConfig = {
+  code:      '0450',
+  name:      'Business Studies',
+  has_tiers: false,
+  papers: [
+    { paper_number: '1', name: 'Paper 1', tier: null, is_ums: false, max_raw_mark: 80, max_ums_mark: null, weight_percentage: 50, paper_group: null },
+    { paper_number: '2', name: 'Paper 2', tier: null, is_ums: false, max_raw_mark: 80, max_ums_mark: null, weight_percentage: 50, paper_group: null },
+  ],
+}
+
+function row(year: number, marks: number[], overrides: Partial<ParsedThreshold> = {}): ParsedThreshold {
+  const grades = ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G']
+  return {
+    syllabus_code: '0450',
+    season:        'MJ',
+    year,
+    tier:          null,
+    option_code:   'BY',
+    components:    ['12', '22'],
+    is_default:    true,
+    max_mark:      200,
+    grades:        marks.map((min_mark, i) => ({ grade: grades[i], min_mark })),
+    ...overrides,
+  }
+}
+
+const checks = (rows: ParsedThreshold[], severity: 'error' | 'warning') =>
+  validateThresholds(rows, [SUBJECT]).issues.filter((i) => i.severity === severity).map((i) => i.check)
+
+describe('validateThresholds', () => {
+  test('passes a clean series', () => {
+    const report = validateThresholds([
+      row(2023, [161, 140, 122, 104, 83, 63, 43, 23]),
+      row(2024, [158, 138, 120, 102, 82, 62, 42, 22]),
+    ], [SUBJECT])
+    assert.equal(report.errors, 0)
+    assert.equal(report.warnings, 0)
+  })
+
+  test('flags boundaries that rise down the grades', () => {
+    assert.deepEqual(checks([row(2024, [161, 140, 145, 104, 83, 63, 43, 23])], 'error'), ['grade_order'])
+  })
+
+  test('flags min_mark above max_mark', () => {
+    assert.deepEqual(checks([row(2024, [161, 140, 122, 104, 83, 63, 43, 23], { max_mark: 150 })], 'error'), ['min_above_max'])
+  })
+
+  test('flags a gap in the grades', () => {
+    const gapped = row(2024, [161, 140, 122, 104, 83, 63, 43, 23])
+    gapped.grades.splice(2, 1)
+    assert.deepEqual(checks([gapped], 'error'), ['missing_grade'])
+  })
+
+  test('flags a grade off the subject scale', () => {
+    const numeric = row(2024, [161, 140])
+    numeric.grades[1].grade = '8'
+    assert.deepEqual(checks([numeric], 'error'), ['unknown_grade'])
+  })
+
+  test('warns when max_mark gives a paper an implausible weighting', () => {
+    assert.deepEqual(checks([row(2024, [11, 10, 9, 8, 7, 6, 5, 4], { max_mark: 12 })], 'warning'), ['max_mark_weights', 'max_mark_weights'])
+  })
+
+  test('warns on a year-on-year jump beyond the tolerance', () => {
+    const issues = validateThresholds([
+      row(2023, [161, 140, 122, 104, 83, 63, 43, 23]),
+      row(2024, [170, 150, 135, 125, 83, 63, 43, 23]),
+    ], [SUBJECT], 10).issues
+    assert.deepEqual(issues.map((i) => [i.check, i.grade, i.year]), [['year_jump', 'C', 2024]])
+  })
+})
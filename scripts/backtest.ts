@@ -0,0 +1,284 @@
+/**
+ * backtest.ts
+ *
+ * Replays threshold history to measure estimator accuracy. For every subject,
+ * tier and season, each series is predicted from the series before it only
+ * (up to the same N-series window the app uses), then compared with what
+ * Cambridge actually published.
+ *
+ * Reports per forecast strategy:
+ *   - mean absolute boundary error, in percentage points
+ *   - grade-misclassification rate: the share of weighted totals on a uniform
+ *     0–100% grid that get a different grade under predicted vs real boundaries
+ *
+ * Runs entirely offline against scripts/parsed/thresholds.json and writes
+ * scripts/reports/backtest.json + backtest.md.
+ *
+ * Run with: pnpm pipeline:backtest [--years=5]
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import type { ForecastStrategy } from '@/types'
+import { FORECAST_STRATEGIES, forecastBoundary } from '@/lib/calculation/forecast'
+import type { ParsedThreshold } from '@/lib/data/parsed'
+
+const __dirname   = dirname(fileURLToPath(import.meta.url))
+const PARSED_DIR  = join(__dirname, 'parsed')
+const REPORTS_DIR = join(__dirname, 'reports')
+
+const STRATEGIES = Object.keys(FORECAST_STRATEGIES) as ForecastStrategy[]
+const SCORE_STEP = 0.5 // grid spacing (pct points) for the misclassification check
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface Boundary {
+  grade: string
+  pct:   number
+}
+
+export interface BacktestRow {
+  syllabus_code:          string
+  tier:                   'Core' | 'Extended' | null
+  season:                 'FM' | 'MJ' | 'ON'
+  strategy:               ForecastStrategy
+  series_tested:          number[]
+  boundaries_tested:      number
+  mean_abs_error:         number
+  misclassification_rate: number
+}
+
+export interface StrategySummary {
+  strategy:               ForecastStrategy
+  series_tested:          number
+  boundaries_tested:      number
+  mean_abs_error:         number
+  misclassification_rate: number
+}
+
+export interface BacktestReport {
+  generated_at: string
+  source:       string
+  num_years:    number
+  score_step:   number
+  summary:      StrategySummary[]
+  rows:         BacktestRow[]
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toPct(minMark: number, maxMark: number): number {
+  return maxMark > 0 ? Math.round((minMark / maxMark) * 1000) / 10 : 0
+}
+
+function boundariesOf(row: ParsedThreshold): Boundary[] {
+  return row.grades.map((g) => ({ grade: g.grade, pct: toPct(g.min_mark, row.max_mark) }))
+}
+
+/** Boundaries are ordered best grade first; anything below the last is U. */
+function gradeFor(score: number, boundaries: Boundary[]): string {
+  return boundaries.find((b) => score >= b.pct)?.grade ?? 'U'
+}
+
+function misclassified(predicted: Boundary[], actual: Boundary[]): { wrong: number; total: number } {
+  let wrong = 0
+  let total = 0
+  for (let score = 0; score <= 100; score += SCORE_STEP) {
+    if (gradeFor(score, predicted) !== gradeFor(score, actual)) wrong++
+    total++
+  }
+  return { wrong, total }
+}
+
+function round(value: number, places: number): number {
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+function parseYearsArg(): number {
+  const arg = process.argv.find((a) => a.startsWith('--years='))
+  const years = arg ? parseInt(arg.split('=')[1], 10) : 5
+  return Number.isFinite(years) && years > 0 ? years : 5
+}
+
+// ── Back-test ────────────────────────────────────────────────────────────────
+
+export function backtest(rows: ParsedThreshold[], numYears: number): BacktestReport {
+  const groups: Record<string, ParsedThreshold[]> = {}
+  // Only the default option per tier — older parses without is_default held nothing else
+  for (const row of rows.filter((r) => r.is_default ?? true)) {
+    const key = `${row.syllabus_code}|${row.tier ?? ''}|${row.season}`
+    if (!groups[key]) groups[key] = []
+    groups[key].push(row)
+  }
+
+  const results: BacktestRow[] = []
+  const totals: Record<string, { series: number; boundaries: number; error: number; wrong: number; scores: number }> = {}
+
+  for (const group of Object.values(groups)) {
+    const history = [...group].sort((a, b) => a.year - b.year)
+    const { syllabus_code, tier, season } = history[0]
+
+    for (const strategy of STRATEGIES) {
+      const seriesTested: number[] = []
+      let boundaries = 0
+      let error      = 0
+      let wrong      = 0
+      let scores     = 0
+
+      for (let i = 1; i < history.length; i++) {
+        const actualRow = history[i]
+        const prior     = history.slice(Math.max(0, i - numYears), i)
+        const actual    = boundariesOf(actualRow)
+
+        const predicted: Boundary[] = []
+        for (const { grade, pct } of actual) {
+          const points = prior.flatMap((r) =>
+            boundariesOf(r)
+              .filter((b) => b.grade === grade)
+              .map((b) => ({ year: r.year, pct: b.pct }))
+          )
+          if (points.length === 0) continue
+
+          const forecast = forecastBoundary(points, strategy, actualRow.year)
+          predicted.push({ grade, pct: forecast })
+          error += Math.abs(forecast - pct)
+          boundaries++
+        }
+
+        if (predicted.length === 0) continue
+
+        const m = misclassified(predicted, actual)
+        wrong  += m.wrong
+        scores += m.total
+        seriesTested.push(actualRow.year)
+      }
+
+      if (boundaries === 0) continue
+
+      results.push({
+        syllabus_code,
+        tier,
+        season,
+        strategy,
+        series_tested:          seriesTested,
+        boundaries_tested:      boundaries,
+        mean_abs_error:         round(error / boundaries, 2),
+        misclassification_rate: round(wrong / scores, 4),
+      })
+
+      const t = totals[strategy] ?? { series: 0, boundaries: 0, error: 0, wrong: 0, scores: 0 }
+      t.series     += seriesTested.length
+      t.boundaries += boundaries
+      t.error      += error
+      t.wrong      += wrong
+      t.scores     += scores
+      totals[strategy] = t
+    }
+  }
+
+  const summary: StrategySummary[] = STRATEGIES
+    .filter((s) => totals[s])
+    .map((s) => ({
+      strategy:               s,
+      series_tested:          totals[s].series,
+      boundaries_tested:      totals[s].boundaries,
+      mean_abs_error:         round(totals[s].error / totals[s].boundaries, 2),
+      misclassification_rate: round(totals[s].wrong / totals[s].scores, 4),
+    }))
+    .sort((a, b) => a.mean_abs_error - b.mean_abs_error)
+
+  results.sort((a, b) =>
+    a.syllabus_code.localeCompare(b.syllabus_code) ||
+    a.season.localeCompare(b.season) ||
+    (a.tier ?? '').localeCompare(b.tier ?? '') ||
+    STRATEGIES.indexOf(a.strategy) - STRATEGIES.indexOf(b.strategy)
+  )
+
+  return {
+    generated_at: new Date().toISOString(),
+    source:       'scripts/parsed/thresholds.json',
+    num_years:    numYears,
+    score_step:   SCORE_STEP,
+    summary,
+    rows:         results,
+  }
+}
+
+// ── Markdown ─────────────────────────────────────────────────────────────────
+
+function toMarkdown(report: BacktestReport): string {
+  const pct = (rate: number) => `${(rate * 100).toFixed(1)}%`
+  const lines: string[] = [
+    '# Threshold back-test',
+    '',
+    `Generated ${report.generated_at} from \`${report.source}\`.`,
+    `Each series is predicted from up to ${report.num_years} earlier series of the same season.`,
+    '',
+    '## By strategy',
+    '',
+    '| Strategy | Series tested | Boundaries | Mean abs error (pp) | Misclassified |',
+    '| --- | ---: | ---: | ---: | ---: |',
+    ...report.summary.map((s) =>
+      `| ${s.strategy} | ${s.series_tested} | ${s.boundaries_tested} | ${s.mean_abs_error.toFixed(2)} | ${pct(s.misclassification_rate)} |`
+    ),
+    '',
+    '## By subject and season',
+    '',
+    `Each cell is mean abs error (pp) / misclassification rate.`,
+    '',
+    `| Subject | Tier | Season | ${STRATEGIES.join(' | ')} |`,
+    `| --- | --- | --- | ${STRATEGIES.map(() => '---:').join(' | ')} |`,
+  ]
+
+  const byGroup: Record<string, BacktestRow[]> = {}
+  for (const row of report.rows) {
+    const key = `${row.syllabus_code}|${row.tier ?? ''}|${row.season}`
+    if (!byGroup[key]) byGroup[key] = []
+    byGroup[key].push(row)
+  }
+
+  for (const rows of Object.values(byGroup)) {
+    const { syllabus_code, tier, season } = rows[0]
+    const cells = STRATEGIES.map((s) => {
+      const r = rows.find((row) => row.strategy === s)
+      return r ? `${r.mean_abs_error.toFixed(2)} / ${pct(r.misclassification_rate)}` : '—'
+    })
+    lines.push(`| ${syllabus_code} | ${tier ?? '—'} | ${season} | ${cells.join(' | ')} |`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────────
+
+function main() {
+  const thresholdsPath = join(PARSED_DIR, 'thresholds.json')
+
+  if (!existsSync(thresholdsPath)) {
+    console.log('No parsed thresholds found. Run pnpm pipeline:parse first.')
+    return
+  }
+
+  const rows: ParsedThreshold[] = JSON.parse(readFileSync(thresholdsPath, 'utf-8'))
+  const report = backtest(rows, parseYearsArg())
+
+  mkdirSync(REPORTS_DIR, { recursive: true })
+  writeFileSync(join(REPORTS_DIR, 'backtest.json'), JSON.stringify(report, null, 2))
+  writeFileSync(join(REPORTS_DIR, 'backtest.md'), toMarkdown(report))
+
+  console.log(`── Back-test (${report.rows.length} subject/season/strategy rows) ──`)
+  for (const s of report.summary) {
+    console.log(
+      `  ${s.strategy.padEnd(10)} MAE ${s.mean_abs_error.toFixed(2)}pp  ` +
+      `misclassified ${(s.misclassification_rate * 100).toFixed(1)}%  (${s.series_tested} series)`
+    )
+  }
+  console.log(`\nReport written to ${REPORTS_DIR}`)
+}
+
+// Only run when invoked directly (pnpm pipeline:backtest), not when imported by tests
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main()
+}
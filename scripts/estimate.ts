@@ -0,0 +1,142 @@
+/**
+ * estimate.ts
+ *
+ * Grades a set of marks from the command line, offline. Reads the same files
+ * as the app's file data mode (data/subjects, scripts/parsed, data/ums) and
+ * runs the same calculation as /api/estimate/calculate, so the grade printed
+ * here is the one the app would show.
+ *
+ * Marks are given per paper number; papers not listed count as not yet sat.
+ *
+ * Run with: pnpm estimate 0625 --tier=Extended --marks=2:32,4:60,6:30
+ *           [--option=AX] [--season=MJ|FM|ON] [--json]
+ */
+
+import type { PaperMarkEntry, Season, SubjectEstimateInput, Tier } from '@/types'
+import { calculateEstimate } from '@/lib/calculation/calculate'
+import { fileRepositories } from '@/lib/data/file'
+import type { SubjectDetail } from '@/lib/data/repositories'
+
+const SEASONS: Season[] = ['FM', 'MJ', 'ON']
+
+type SubjectPaper = SubjectDetail['papers'][number]
+
+// ── Arguments ────────────────────────────────────────────────────────────────
+
+function flag(name: string): string | null {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`))
+  return arg ? arg.slice(name.length + 3) : null
+}
+
+/** Parses "2:32,4:60" into paper number → raw mark; throws on malformed input. */
+function parseMarks(value: string): Map<string, number> {
+  const marks = new Map<string, number>()
+  for (const part of value.split(',')) {
+    const [paper, raw] = part.split(':')
+    const mark = Number(raw)
+    if (!paper || !Number.isFinite(mark) || mark < 0) throw new Error(`Bad mark "${part}" — expected paper:mark`)
+    marks.set(paper, mark)
+  }
+  return marks
+}
+
+// ── Entry ────────────────────────────────────────────────────────────────────
+
+/**
+ * Of papers sharing a group (alternatives like Practical or Alternative to
+ * Practical) only one is sat: the one with a mark, else the first listed.
+ */
+function isSat(paper: SubjectPaper, papers: SubjectPaper[], marks: Map<string, number>): boolean {
+  if (!paper.paper_group || marks.has(paper.paper_number)) return true
+  const group = papers.filter((p) => p.paper_group === paper.paper_group)
+  return !group.some((p) => marks.has(p.paper_number)) && group[0] === paper
+}
+
+/** The current papers for the tier and option, as an estimate entry with the given marks. */
+function buildEntry(
+  subject: SubjectDetail,
+  tier: Tier | null,
+  optionCode: string | null,
+  marks: Map<string, number>
+): SubjectEstimateInput {
+  const papers = subject.papers.filter((p) =>
+    (p.tier === null || p.tier === tier) &&
+    (!optionCode || !p.option_codes || p.option_codes.includes(optionCode)) &&
+    p.valid_to === null
+  )
+
+  for (const number of marks.keys()) {
+    if (!papers.some((p) => p.paper_number === number)) {
+      throw new Error(`${subject.syllabus_code} has no paper ${number}${tier ? ` in the ${tier} tier` : ''}`)
+    }
+  }
+
+  return {
+    subject_id:    subject.id,
+    subject_code:  subject.syllabus_code,
+    subject_name:  subject.name,
+    tier_selected: tier,
+    option_code:   optionCode,
+    grading_scale: subject.grading_scale,
+    paper_marks:   papers
+      .filter((p) => isSat(p, papers, marks))
+      .map((p): PaperMarkEntry => ({
+        paper_id:          p.id,
+        paper_number:      p.paper_number,
+        paper_name:        p.name,
+        raw_mark:          marks.get(p.paper_number) ?? -1,
+        max_raw_mark:      p.max_raw_mark,
+        weight_percentage: p.weight_percentage,
+        is_ums:            p.is_ums,
+        max_ums_mark:      p.max_ums_mark,
+        is_endorsement:    p.is_endorsement,
+        valid_from:        p.valid_from,
+        valid_to:          p.valid_to,
+      })),
+  }
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const code = process.argv.slice(2).find((a) => !a.startsWith('--'))
+  const marksArg = flag('marks')
+  if (!code || !marksArg) {
+    console.log('Usage: pnpm estimate <syllabus code> --marks=<paper>:<mark>,... [--tier=Core|Extended] [--option=<code>] [--season=MJ] [--json]')
+    process.exitCode = 1
+    return
+  }
+
+  const season = (flag('season') ?? 'MJ') as Season
+  if (!SEASONS.includes(season)) throw new Error(`Unknown season "${season}"`)
+
+  const { subjects, thresholds } = fileRepositories()
+  const subject = await subjects.getByCode(code)
+  if (!subject) throw new Error(`No subject ${code} in data/subjects`)
+
+  const tier = (flag('tier') as Tier | null) ?? null
+  if (subject.has_tiers && !tier) throw new Error(`${code} is tiered — pass --tier=Core or --tier=Extended`)
+
+  const entry = buildEntry(subject, tier, flag('option'), parseMarks(marksArg))
+  // Same options as /api/estimate/calculate
+  const result = await calculateEstimate(thresholds, [entry], season, { pooling: 'fallback' })
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(result, null, 2))
+    return
+  }
+
+  const [r] = result.entries
+  console.log(`── ${r.subject_code} ${r.subject_name}${r.tier_selected ? ` (${r.tier_selected})` : ''} ──`)
+  for (const p of r.paper_results) {
+    console.log(`  ${p.paper_name.padEnd(40)} ${String(p.raw_mark).padStart(4)}  ${p.pct.toFixed(1).padStart(5)}%  ${p.estimated_grade ?? '—'}`)
+  }
+  console.log(`\n  Weighted total ${r.weighted_total_pct}%  →  ${r.estimated_grade ?? 'no boundaries'}`)
+  if (r.missing_papers) console.log('  (papers without a mark are left out and the rest scaled to 100%)')
+  if (r.endorsement) console.log(`  Endorsement: ${r.endorsement.grade ?? '—'}`)
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 1
+})
@@ -0,0 +1,233 @@
+/**
+ * gen-db-types.ts
+ *
+ * Generates types/database.ts — the Database type supabase-js clients are
+ * parameterised with — from supabase/migrations/*.sql, applied in file order.
+ * Reads the statements the migrations use:
+ *
+ *   - create table … ( columns, references, inline check (col in (…)) )
+ *   - alter table … add column
+ *   - alter table … add constraint … check (col in (…))
+ *
+ * A check (col in (…)) narrows the column to a union of its values; a later
+ * constraint on the same column replaces it. Foreign keys into other schemas
+ * (auth.users) are left out of Relationships, as supabase gen types does.
+ *
+ * Run with: pnpm db:types (a test fails while the committed file is stale)
+ */
+
+import { readFileSync, readdirSync, writeFileSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+export const MIGRATIONS_DIR = join(__dirname, '..', 'supabase', 'migrations')
+export const TYPES_PATH     = join(__dirname, '..', 'types', 'database.ts')
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface ColumnSchema {
+  name:       string
+  type:       string        // TypeScript type of the value, without null
+  nullable:   boolean
+  hasDefault: boolean
+  unique:     boolean
+  references: { table: string; column: string } | null
+}
+
+export type TableSchema = ColumnSchema[]
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+const SQL_TYPES: Record<string, string> = {
+  uuid:        'string',
+  text:        'string',
+  timestamptz: 'string',
+  date:        'string',
+  integer:     'number',
+  bigint:      'number',
+  smallint:    'number',
+  numeric:     'number',
+  real:        'number',
+  boolean:     'boolean',
+  jsonb:       'Json',
+  json:        'Json',
+}
+
+/** Statements with comments and function bodies removed. */
+function statements(sql: string): string[] {
+  return sql
+    .replace(/\$\$[\s\S]*?\$\$/g, '')
+    .replace(/--.*$/gm, '')
+    .split(';')
+    .map((s) => s.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+}
+
+/** Splits on commas outside parentheses. */
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const ch of body) {
+    if (ch === '(') depth++
+    if (ch === ')') depth--
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+/** The union a check (col in ('a', 'b')) allows, or null when the definition has none. */
+function checkUnion(definition: string): string | null {
+  const match = definition.match(/check \(\s*\w+ in \(([^)]*)\)\s*\)/i)
+  if (!match) return null
+  return match[1].split(',').map((v) => v.trim()).join(' | ')
+}
+
+function parseColumn(definition: string): ColumnSchema {
+  const [name, rawType] = definition.split(' ')
+  const isArray  = rawType.endsWith('[]')
+  const baseType = SQL_TYPES[rawType.replace('[]', '').toLowerCase()]
+  if (!baseType) throw new Error(`unsupported column type "${rawType}" in: ${definition}`)
+
+  const primaryKey = /primary key/i.test(definition)
+  const references = definition.match(/references (\w+)(\.\w+)?\((\w+)\)/i)
+
+  return {
+    name,
+    type:       isArray ? `${baseType}[]` : checkUnion(definition) ?? baseType,
+    nullable:   !primaryKey && !/not null/i.test(definition),
+    hasDefault: /default/i.test(definition),
+    unique:     primaryKey || /\bunique\b/i.test(definition),
+    // Cross-schema keys (auth.users) aren't in the public schema's relationships
+    references: references && !references[2] ? { table: references[1], column: references[3] } : null,
+  }
+}
+
+/** Applies the migrations, in order, to an empty public schema. */
+export function applyMigrations(migrations: string[]): Record<string, TableSchema> {
+  const tables: Record<string, TableSchema> = {}
+
+  for (const statement of migrations.flatMap(statements)) {
+    const create = statement.match(/^create table (?:if not exists )?(\w+) \((.*)\)$/i)
+    if (create) {
+      tables[create[1]] = splitTopLevel(create[2])
+        .filter((d) => !/^(constraint|unique|primary key|check|foreign key)\b/i.test(d))
+        .map(parseColumn)
+      continue
+    }
+
+    const addColumn = statement.match(/^alter table (\w+) add column (?:if not exists )?(.*)$/i)
+    if (addColumn) {
+      const column = parseColumn(addColumn[2])
+      tables[addColumn[1]] = [...tables[addColumn[1]].filter((c) => c.name !== column.name), column]
+      continue
+    }
+
+    const addCheck = statement.match(/^alter table (\w+) add constraint \w+ check \(\s*(\w+) in \(/i)
+    if (addCheck) {
+      const union  = checkUnion(statement.slice(statement.search(/check/i)))
+      const column = tables[addCheck[1]].find((c) => c.name === addCheck[2])
+      if (column && union) column.type = union
+    }
+  }
+
+  return tables
+}
+
+// ── Output ───────────────────────────────────────────────────────────────────
+
+function tableType(name: string, columns: TableSchema): string[] {
+  const valueType = (c: ColumnSchema) => (c.nullable ? `${c.type} | null` : c.type)
+  const fields = (optional: (c: ColumnSchema) => boolean) =>
+    columns.map((c) => `          ${c.name}${optional(c) ? '?' : ''}: ${valueType(c)}`)
+
+  const relationships = columns
+    .filter((c) => c.references)
+    .flatMap((c) => [
+      '          {',
+      `            foreignKeyName: '${name}_${c.name}_fkey'`,
+      `            columns: ['${c.name}']`,
+      `            isOneToOne: ${c.unique}`,
+      `            referencedRelation: '${c.references!.table}'`,
+      `            referencedColumns: ['${c.references!.column}']`,
+      '          },',
+    ])
+
+  return [
+    `      ${name}: {`,
+    '        Row: {',
+    ...fields(() => false),
+    '        }',
+    '        Insert: {',
+    ...fields((c) => c.nullable || c.hasDefault),
+    '        }',
+    '        Update: {',
+    ...fields(() => true),
+    '        }',
+    relationships.length > 0 ? '        Relationships: [' : '        Relationships: []',
+    ...(relationships.length > 0 ? [...relationships, '        ]'] : []),
+    '      }',
+  ]
+}
+
+/** types/database.ts for the given tables. */
+export function renderDatabaseTypes(tables: Record<string, TableSchema>): string {
+  const names = Object.keys(tables).sort()
+
+  return [
+    '// Generated by scripts/gen-db-types.ts from supabase/migrations — do not edit.',
+    '// Regenerate with: pnpm db:types',
+    '',
+    'export type Json =',
+    '  | string',
+    '  | number',
+    '  | boolean',
+    '  | null',
+    '  | { [key: string]: Json | undefined }',
+    '  | Json[]',
+    '',
+    'export type Database = {',
+    '  public: {',
+    '    Tables: {',
+    ...names.flatMap((name) => tableType(name, tables[name])),
+    '    }',
+    '    Views: { [_ in never]: never }',
+    '    Functions: { [_ in never]: never }',
+    '    Enums: { [_ in never]: never }',
+    '    CompositeTypes: { [_ in never]: never }',
+    '  }',
+    '}',
+    '',
+    "type PublicTables = Database['public']['Tables']",
+    '',
+    "export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row']",
+    "export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert']",
+    "export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update']",
+    '',
+  ].join('\n')
+}
+
+export function readMigrations(dir = MIGRATIONS_DIR): string[] {
+  return readdirSync(dir)
+    .filter((f) => f.endsWith('.sql'))
+    .sort()
+    .map((f) => readFileSync(join(dir, f), 'utf-8'))
+}
+
+function main() {
+  const tables = applyMigrations(readMigrations())
+  writeFileSync(TYPES_PATH, renderDatabaseTypes(tables))
+  console.log(`✓ ${Object.keys(tables).length} tables written to ${TYPES_PATH}`)
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main()
+}
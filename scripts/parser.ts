@@ -2,19 +2,34 @@
  * parser.ts
  *
  * Reads Cambridge IGCSE grade threshold PDFs from scripts/raw/{year}/{code}.pdf,
- * extracts overall grade thresholds, and writes to scripts/parsed/.
+ * extracts overall and per-component grade thresholds, and writes to scripts/parsed/.
  *
- * Handles two PDF formats:
+ * Endorsement components (e.g. 0500's speaking and listening test) are graded
+ * Distinction/Merit/Pass rather than A*–G and are written to endorsements.json.
+ *
+ * Grade columns are read from each table's header, so A*–G, 9–1 and
+ * double-award (A*A*–GG) syllabuses parse; grades are written as they appear.
+ *
+ * Overall tables are read by the first matching layout in THRESHOLD_FORMATS:
  *   2023+ format — max_mark_after_weighting is a column in the option table
  *   2022 format  — max_mark is in a separate sentence before the option table
+ * A PDF in no known layout fails the run rather than being skipped, and a
+ * failed run leaves the previous parsed/*.json in place.
+ *
+ * Each overall threshold row records its source: the PDF's URL from the
+ * scraper's manifest, its SHA-256, the layout that read it and when.
  *
  * Run with: pnpm pipeline:parse
  */
 
+import { createHash } from 'crypto'
 import { createRequire } from 'module'
 import { readFileSync, writeFileSync, mkdirSync, readdirSync, existsSync } from 'fs'
-import { join, dirname } from 'path'
+import { join, dirname, relative } from 'path'
 import { fileURLToPath } from 'url'
+import { GRADING_SCALES } from '@/lib/grades'
+import type { ParsedComponent, ParsedEndorsement, ParsedThreshold, ThresholdSource } from '@/lib/data/parsed'
+import type { Manifest } from './scraper.js'
 
 const require  = createRequire(import.meta.url)
 const pdfParse = require('pdf-parse') as (
@@ -22,33 +37,14 @@ const pdfParse = require('pdf-parse') as (
   options?: { max?: number }
 ) => Promise<{ text: string; numpages: number }>
 
-const __dirname  = dirname(fileURLToPath(import.meta.url))
-const RAW_DIR    = join(__dirname, 'raw')
-const PARSED_DIR = join(__dirname, 'parsed')
-
-// ── Types ────────────────────────────────────────────────────────────────────
-
-export interface ParsedThreshold {
-  syllabus_code: string
-  season:        'FM' | 'MJ' | 'ON'
-  year:          number
-  tier:          'Core' | 'Extended' | null
-  option_code:   string
-  max_mark:      number
-  grades:        { grade: string; min_mark: number }[]
-}
-
-export interface ParsedComponent {
-  syllabus_code:  string
-  year:           number
-  component_code: string
-  paper_number:   string
-  max_mark:       number
-}
+const __dirname     = dirname(fileURLToPath(import.meta.url))
+const RAW_DIR       = join(__dirname, 'raw')
+const PARSED_DIR    = join(__dirname, 'parsed')
+const MANIFEST_PATH = join(RAW_DIR, 'manifest.json')
 
 // ── Config ───────────────────────────────────────────────────────────────────
 
-const GRADE_ORDER = ['A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G'] as const
+const ENDORSEMENT_ORDER = ['Distinction', 'Merit', 'Pass'] as const
 
 // For tiered subjects: which option-code prefixes map to Core / Extended
 const TIER_MAP: Record<string, { core: string[]; extended: string[] }> = {
@@ -57,9 +53,10 @@ const TIER_MAP: Record<string, { core: string[]; extended: string[] }> = {
   '0620': { core: ['F', 'G'], extended: ['B', 'C']  }, // Chemistry
   '0625': { core: ['F', 'G'], extended: ['B', 'C']  }, // Physics
   '0653': { core: ['F', 'G'], extended: ['B', 'C']  }, // Combined Science
+  '0654': { core: ['F', 'G'], extended: ['B', 'C']  }, // Co-ordinated Sciences (double award)
 }
 
-// For non-tiered subjects with multiple options, prefer this prefix
+// For non-tiered subjects with multiple options, default to this prefix
 const PREFERRED_PREFIX: Record<string, string> = {
   '0500': 'B', // English: BY = Papers 1+2, no coursework
 }
@@ -67,7 +64,7 @@ const PREFERRED_PREFIX: Record<string, string> = {
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
 /** Extract all integer and dash tokens from a string. */
-function extractTokens(str: string): (number | null)[] {
+export function extractTokens(str: string): (number | null)[] {
   const tokens: (number | null)[] = []
   for (const match of str.matchAll(/\d+|[\u2013\u2014\u002D]/g)) {
     const t = match[0]
@@ -77,33 +74,96 @@ function extractTokens(str: string): (number | null)[] {
 }
 
 /**
- * Detect how many grade columns are in the overall table by looking for
- * the header line containing "A*" in the table header area.
- * Returns 8 (full A*–G) or 6 (A*–E for subjects like Additional Maths).
+ * Detect the overall table's grade columns from its header: 9–1 syllabuses
+ * list 9 8 7 … 1; double-award syllabuses list A*A* A*A AA … GG; A*–G
+ * syllabuses list A* … G, or A* … E for subjects like Additional Maths.
  */
-function detectGradeCount(overallSection: string): number {
+export function detectGradeColumns(overallSection: string): string[] {
   // Grab the first 600 chars — enough to cover the table header
-  const head = overallSection.slice(0, 600)
-  if (/A\*[\s\S]{0,80}F[\s\S]{0,20}G/m.test(head)) return 8
-  return 6
+  const head    = overallSection.slice(0, 600)
+  const letters = GRADING_SCALES['A*-G']
+  if (/\b9\s+8\s+7\s+6\s+5\s+4\s+3\s+2\s+1\b/.test(head)) return GRADING_SCALES['9-1']
+  if (/A\*\s*A\*\s+A\*\s*A\s+AA\b/.test(head)) return GRADING_SCALES['A*A*-GG']
+  if (/A\*[\s\S]{0,80}F[\s\S]{0,20}G/m.test(head)) return letters
+  return letters.slice(0, 6)
+}
+
+/**
+ * Component tables have no A* column: A*–G components start at A and
+ * double-award components at AA. 9–1 components start at 8 unless their
+ * header lists a 9.
+ */
+export function componentGradeColumns(componentSection: string, overallColumns: string[]): string[] {
+  if (overallColumns[0] === '9') {
+    return /\b9\s+8\s+7\b/.test(componentSection.slice(0, 1500)) ? overallColumns : overallColumns.slice(1)
+  }
+  return overallColumns.filter((g) => !g.includes('A*'))
 }
 
 // ── Component parsing ────────────────────────────────────────────────────────
 
-function parseComponentTable(text: string): { code: string; maxMark: number }[] {
+export interface RawComponent {
+  code:    string
+  maxMark: number
+  grades:  { grade: string; min_mark: number }[]
+}
+
+/**
+ * Component rows list the max raw mark followed by one boundary per grade.
+ * The grade columns are the overall table's grades minus the top grade (A–G,
+ * A–E for 6-grade subjects, 8–1 for 9–1 subjects). Dashes are grades the
+ * component does not award (e.g. F/G on Extended papers) and are dropped.
+ */
+export function parseComponentTable(text: string, skipCodes: Set<string> = new Set()): RawComponent[] {
   const overallIdx = text.toLowerCase().indexOf('overall threshold')
   const section    = overallIdx !== -1 ? text.slice(0, overallIdx) : text
-  const results: { code: string; maxMark: number }[] = []
+  const columns    = overallIdx !== -1 ? detectGradeColumns(text.slice(overallIdx)) : GRADING_SCALES['A*-G']
+  const gradeCols  = componentGradeColumns(section, columns)
+
+  const results: RawComponent[] = []
   for (const line of section.split('\n')) {
     const m = line.trim().match(/^Component\s+(\d{2,3})\s+(\d+)/)
-    if (m) results.push({ code: m[1], maxMark: parseInt(m[2], 10) })
+    if (!m || skipCodes.has(m[1])) continue
+
+    const tokens = extractTokens(line.trim().slice(m[0].length))
+    const grades = tokens.length >= gradeCols.length
+      ? gradeCols
+          .map((g, i): { grade: string; min_mark: number | null } => ({ grade: g, min_mark: tokens[i] }))
+          .filter((g): g is { grade: string; min_mark: number } =>
+            g.min_mark !== null && g.min_mark > 0
+          )
+      : []
+
+    results.push({ code: m[1], maxMark: parseInt(m[2], 10), grades })
+  }
+  return results
+}
+
+/**
+ * Endorsement components get their own table headed "Distinction Merit Pass";
+ * each row is the max raw mark followed by the three boundaries.
+ */
+export function parseEndorsementTable(text: string): RawComponent[] {
+  const headerIdx = text.search(/Distinction\s+Merit\s+Pass/i)
+  if (headerIdx === -1) return []
+
+  const results: RawComponent[] = []
+  for (const line of text.slice(headerIdx).split('\n').slice(1)) {
+    const m = line.trim().match(/^Component\s+(\d{2,3})\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)/)
+    if (!m) continue
+
+    const grades = ENDORSEMENT_ORDER
+      .map((g, i) => ({ grade: g, min_mark: parseInt(m[i + 3], 10) }))
+      .filter((g) => g.min_mark > 0)
+
+    results.push({ code: m[1], maxMark: parseInt(m[2], 10), grades })
   }
   return results
 }
 
 // ── Max-mark extraction (2022 format) ────────────────────────────────────────
 
-interface MaxMarkByTier {
+export interface MaxMarkByTier {
   default:   number
   Core?:     number
   Extended?: number
@@ -114,7 +174,7 @@ interface MaxMarkByTier {
  * the sentence "The maximum total mark for this syllabus, after weighting has
  * been applied, is X [for the Extended option and Y for the Core option]."
  */
-function extract2022MaxMarks(text: string): MaxMarkByTier | null {
+export function extract2022MaxMarks(text: string): MaxMarkByTier | null {
   // Case 1: two different values: "is 200 for the Extended option and 160 for the Core option"
   const twoValMatch = text.match(
     /maximum\s+total\s+mark[^.]*?is\s+(\d{2,3})\s+for\s+the\s+(\w+)\s+option\s+and\s+(\d{2,3})\s+for\s+the\s+(\w+)\s+option/i
@@ -139,71 +199,127 @@ function extract2022MaxMarks(text: string): MaxMarkByTier | null {
 
 // ── Overall table parsing ────────────────────────────────────────────────────
 
-interface RawOption {
-  code:    string
-  maxMark: number
-  grades:  (number | null)[]
+export interface RawOption {
+  code:       string
+  components: string[]
+  maxMark:    number
+  columns:    string[] // grade per entry in grades, best first
+  grades:     (number | null)[]
 }
 
-function parseOverallOptions(text: string): RawOption[] {
-  const overallIdx = text.toLowerCase().indexOf('overall threshold')
-  if (overallIdx === -1) return []
-
-  const section         = text.slice(overallIdx)
-  const hasMaxMarkCol   = /maximum\s+mark\s+after\s+weighting/i.test(section)
-  const numGrades       = detectGradeCount(section)
-  const externalMarks   = hasMaxMarkCol ? null : extract2022MaxMarks(text)
+/**
+ * Reads option rows from an overall table section. maxMarkOf returns a row's
+ * max mark from its number tokens, or null when the row isn't an option.
+ */
+function parseOptionRows(
+  section:   string,
+  maxMarkOf: (tokens: (number | null)[]) => number | null,
+): RawOption[] {
+  const columns   = detectGradeColumns(section)
+  const numGrades = columns.length
 
   const options: RawOption[] = []
 
   for (const line of section.split('\n')) {
     const trimmed = line.trim()
 
-    // Option rows: 1–3 uppercase letters, optionally followed by (XX)
-    const optMatch = trimmed.match(/^([A-Z]{1,3})(?:\s*\([^)]*\))?/)
+    // Option rows: 1–3 uppercase letters, optionally followed by (component codes)
+    const optMatch = trimmed.match(/^([A-Z]{1,3})(?:\s*\(([^)]*)\))?/)
     if (!optMatch) continue
 
-    const code   = optMatch[1]
-    const rest   = trimmed.slice(optMatch[0].length).trim()
-    const tokens = extractTokens(rest)
+    const code       = optMatch[1]
+    const components = optMatch[2]?.match(/\d{2,3}/g) ?? []
+    const rest       = trimmed.slice(optMatch[0].length).trim()
+    const tokens     = extractTokens(rest)
 
     // Need at least max_mark (2023+) or components (2022) + grades
     if (tokens.length < numGrades) continue
 
-    let maxMark: number
-    let gradeTokens: (number | null)[]
-
-    if (hasMaxMarkCol) {
-      // 2023+ format: first number = max_mark, last numGrades = grades
-      const firstNum = tokens[0]
-      if (firstNum === null || firstNum < 10) continue
-      maxMark     = firstNum
-      gradeTokens = tokens.slice(-numGrades)
-    } else {
-      // 2022 format: no max_mark in row — use external value
-      if (!externalMarks) continue
-      maxMark     = externalMarks.default
-      gradeTokens = tokens.slice(-numGrades)
-    }
-
-    if (gradeTokens.length < numGrades) continue
+    const maxMark = maxMarkOf(tokens)
+    if (maxMark === null) continue
 
-    options.push({ code, maxMark, grades: gradeTokens })
+    options.push({ code, components, maxMark, columns, grades: tokens.slice(-numGrades) })
   }
 
   return options
 }
 
-// ── Tier selection ───────────────────────────────────────────────────────────
+// ── Layouts ──────────────────────────────────────────────────────────────────
+
+export interface OverallTable {
+  options:  RawOption[]
+  maxMarks: MaxMarkByTier | null // max marks stated outside the table, applied per tier
+}
+
+/**
+ * One Cambridge threshold PDF layout. Both functions get the text from the
+ * overall threshold heading onwards and the whole document.
+ */
+export interface ThresholdFormat {
+  name:    string
+  detects: (section: string, text: string) => boolean
+  extract: (section: string, text: string) => OverallTable
+}
+
+/**
+ * Known layouts, tried in order; the first that detects a document reads it.
+ * A new Cambridge layout gets a new entry here.
+ */
+export const THRESHOLD_FORMATS: ThresholdFormat[] = [
+  {
+    // max_mark_after_weighting is a column in the option table
+    name:    '2023+',
+    detects: (section) => /maximum\s+mark\s+after\s+weighting/i.test(section),
+    extract: (section) => ({
+      // First number = max_mark, last numGrades = grades
+      options:  parseOptionRows(section, ([first]) => first !== null && first >= 10 ? first : null),
+      maxMarks: null,
+    }),
+  },
+  {
+    // max_mark is in a separate sentence before the option table
+    name:    '2022',
+    detects: (_, text) => extract2022MaxMarks(text) !== null,
+    extract: (section, text) => {
+      const maxMarks = extract2022MaxMarks(text)
+      return { options: parseOptionRows(section, () => maxMarks?.default ?? null), maxMarks }
+    },
+  },
+]
+
+/**
+ * Finds the overall table and the layout that reads it. Throws when there is
+ * no overall table or no known layout matches, so a new layout can't slip
+ * through as a PDF with no thresholds.
+ */
+export function parseOverallTable(text: string): OverallTable & { format: string } {
+  const overallIdx = text.toLowerCase().indexOf('overall threshold')
+  if (overallIdx === -1) throw new Error('no overall threshold table found')
+
+  const section = text.slice(overallIdx)
+  const format  = THRESHOLD_FORMATS.find(f => f.detects(section, text))
+  if (!format) {
+    throw new Error(`unrecognised layout — none of ${THRESHOLD_FORMATS.map(f => f.name).join(', ')} matched`)
+  }
+
+  const table = format.extract(section, text)
+  if (table.options.length === 0) throw new Error(`${format.name} layout matched but no option rows were read`)
+
+  return { ...table, format: format.name }
+}
+
+// ── Option selection ─────────────────────────────────────────────────────────
 
 /**
  * Given parsed raw options and the subject code, return final ParsedThreshold
  * entries with correct tier assignments and max_marks.
  *
- * For tiered subjects: emit one Core entry and one Extended entry.
- * For non-tiered: emit one entry with tier = null.
+ * Every option is emitted so students can pick the one they sit. Exactly one
+ * option per tier is flagged is_default — the one used when no option is picked.
+ * For tiered subjects, options whose prefix isn't in TIER_MAP are dropped since
+ * their tier is unknown.
  */
-function selectThresholds(
+export function selectThresholds(
   options:       RawOption[],
   code:          string,
   year:          number,
@@ -213,63 +329,116 @@ function selectThresholds(
   if (options.length === 0) return []
 
   const toThreshold = (
-    opt:     RawOption,
-    tier:    'Core' | 'Extended' | null,
-    maxMark: number,
+    opt:       RawOption,
+    tier:      'Core' | 'Extended' | null,
+    maxMark:   number,
+    isDefault: boolean,
   ): ParsedThreshold => ({
     syllabus_code: code,
     season,
     year,
     tier,
     option_code:   opt.code,
+    components:    opt.components,
+    is_default:    isDefault,
     max_mark:      maxMark,
-    grades: GRADE_ORDER
+    grades: opt.columns
       .map((g, i): { grade: string; min_mark: number | null } => ({ grade: g, min_mark: opt.grades[i] }))
       .filter((g): g is { grade: string; min_mark: number } =>
         g.min_mark !== null && g.min_mark > 0
       ),
   })
 
+  const pickY = (opts: RawOption[]) =>
+    opts.find(o => o.code.endsWith('Y')) ?? opts[0]
+
   const tierMap = TIER_MAP[code]
 
   if (tierMap) {
-    // Tiered subject: find best Core and Extended options
     const isTier = (opt: RawOption, prefixes: string[]) =>
       prefixes.some(p => opt.code.startsWith(p))
 
-    const pickBest = (opts: RawOption[]) =>
-      opts.find(o => o.code.endsWith('Y')) ?? opts[0]
-
-    const coreOpts     = options.filter(o => isTier(o, tierMap.core))
-    const extendedOpts = options.filter(o => isTier(o, tierMap.extended))
-    const coreOpt      = pickBest(coreOpts)
-    const extOpt       = pickBest(extendedOpts)
-
     const result: ParsedThreshold[] = []
 
-    if (coreOpt) {
-      const mm = externalMarks?.Core ?? coreOpt.maxMark
-      result.push(toThreshold(coreOpt, 'Core', mm))
-    }
-    if (extOpt) {
-      const mm = externalMarks?.Extended ?? extOpt.maxMark
-      result.push(toThreshold(extOpt, 'Extended', mm))
+    for (const [tier, prefixes] of [['Core', tierMap.core], ['Extended', tierMap.extended]] as const) {
+      const tierOpts = options.filter(o => isTier(o, prefixes))
+      const best     = pickY(tierOpts)
+      for (const opt of tierOpts) {
+        const mm = externalMarks?.[tier] ?? opt.maxMark
+        result.push(toThreshold(opt, tier, mm, opt === best))
+      }
     }
 
     return result
   }
 
-  // Non-tiered: pick one preferred option
+  // Non-tiered: default to the preferred prefix, else any Y variant, else the first option
   const pref     = PREFERRED_PREFIX[code] ?? 'A'
   const prefixed = options.filter(o => o.code.startsWith(pref))
   const fallback = options.filter(o => !o.code.startsWith(pref))
-  const pickY    = (opts: RawOption[]) =>
-    opts.find(o => o.code.endsWith('Y')) ?? opts[0]
+  const best     = pickY(prefixed) ?? pickY(fallback) ?? options[0]
+
+  return options.map(opt =>
+    toThreshold(opt, null, externalMarks?.default ?? opt.maxMark, opt === best)
+  )
+}
+
+// ── Document parsing ─────────────────────────────────────────────────────────
+
+export interface ParsedDocument {
+  format:       string // name of the THRESHOLD_FORMATS entry that read the overall table
+  thresholds:   ParsedThreshold[]
+  components:   ParsedComponent[]
+  endorsements: ParsedEndorsement[]
+}
+
+/**
+ * Parses the extracted text of one threshold PDF. No file or PDF access, so
+ * scripts/__tests__ can run it against checked-in text fixtures. Throws on a
+ * layout no THRESHOLD_FORMATS entry recognises.
+ */
+export function parseThresholdText(
+  text:   string,
+  code:   string,
+  year:   number,
+  season: 'FM' | 'MJ' | 'ON',
+): ParsedDocument {
+  const overall = parseOverallTable(text)
+  const doc: ParsedDocument = { format: overall.format, thresholds: [], components: [], endorsements: [] }
+
+  const paperNumber = (componentCode: string) =>
+    componentCode.replace(/^0+/, '').charAt(0) || componentCode.charAt(0)
+
+  // Endorsement components — graded Distinction/Merit/Pass, kept out of the A*–G tables
+  const endorsements = parseEndorsementTable(text)
+  for (const e of endorsements) {
+    doc.endorsements.push({
+      syllabus_code:  code,
+      season,
+      year,
+      component_code: e.code,
+      paper_number:   paperNumber(e.code),
+      max_mark:       e.maxMark,
+      grades:         e.grades as ParsedEndorsement['grades'],
+    })
+  }
+
+  // Components — every season, since component boundaries differ per series
+  for (const c of parseComponentTable(text, new Set(endorsements.map(e => e.code)))) {
+    doc.components.push({
+      syllabus_code:  code,
+      season,
+      year,
+      component_code: c.code,
+      paper_number:   paperNumber(c.code),
+      max_mark:       c.maxMark,
+      grades:         c.grades,
+    })
+  }
 
-  const opt = pickY(prefixed) ?? pickY(fallback) ?? options[0]
-  const mm  = externalMarks?.default ?? opt.maxMark
+  doc.thresholds = selectThresholds(overall.options, code, year, overall.maxMarks, season)
 
-  return opt ? [toThreshold(opt, null, mm)] : []
+  return doc
 }
 
 // ── Main ─────────────────────────────────────────────────────────────────────
@@ -281,9 +450,12 @@ interface ScanTarget {
 }
 
 async function parsePdfsInDir(
-  target:        ScanTarget,
-  allThresholds: ParsedThreshold[],
-  allComponents: ParsedComponent[],
+  target:          ScanTarget,
+  allThresholds:   ParsedThreshold[],
+  allComponents:   ParsedComponent[],
+  allEndorsements: ParsedEndorsement[],
+  failures:        string[],
+  manifest:        Manifest,
 ) {
   if (!existsSync(target.dir)) return
 
@@ -305,33 +477,29 @@ async function parsePdfsInDir(
         const buffer    = readFileSync(filePath)
         const { text }  = await pdfParse(buffer, { max: 1 })
 
-        // Components (only from FM to avoid duplicates)
-        if (target.season === 'FM') {
-          for (const c of parseComponentTable(text)) {
-            const raw      = c.code.replace(/^0+/, '')
-            const paperNum = raw.charAt(0) || c.code.charAt(0)
-            allComponents.push({ syllabus_code: code, year, component_code: c.code, paper_number: paperNum, max_mark: c.maxMark })
-          }
+        const { format, thresholds, components, endorsements } = parseThresholdText(text, code, year, target.season)
+        const source: ThresholdSource = {
+          url:       manifest[relative(RAW_DIR, filePath)]?.url ?? null,
+          sha256:    createHash('sha256').update(buffer).digest('hex'),
+          format,
+          parsed_at: new Date().toISOString(),
         }
-
-        // Overall thresholds
-        const overallIdx    = text.toLowerCase().indexOf('overall threshold')
-        const hasMaxMarkCol = overallIdx !== -1 && /maximum\s+mark\s+after\s+weighting/i.test(text.slice(overallIdx))
-        const externalMarks = hasMaxMarkCol ? null : extract2022MaxMarks(text)
-
-        const rawOptions = parseOverallOptions(text)
-        const thresholds = selectThresholds(rawOptions, code, year, externalMarks, target.season)
+        allComponents.push(...components)
+        allEndorsements.push(...endorsements)
 
         if (thresholds.length === 0) {
-          console.warn(`  ⚠  ${target.label}/${yearDir}/${code}.pdf — no overall thresholds found`)
+          console.warn(`  ⚠  ${target.label}/${yearDir}/${code}.pdf [${format}] — no options with a known tier`)
         } else {
-          const summary = thresholds.map(t => t.tier ?? 'no-tier').join('+')
-          const marks   = thresholds.map(t => `${t.max_mark}`).join('/')
-          console.log(`  ✓  ${code} (${summary}) max=${marks}`)
-          allThresholds.push(...thresholds)
+          const defaults = thresholds.filter(t => t.is_default)
+          const summary  = defaults.map(t => t.tier ?? 'no-tier').join('+')
+          const marks    = defaults.map(t => `${t.max_mark}`).join('/')
+          const others   = thresholds.length - defaults.length
+          console.log(`  ✓  ${code} [${format}] (${summary}) max=${marks}${others > 0 ? ` +${others} other options` : ''}`)
+          allThresholds.push(...thresholds.map(t => ({ ...t, source })))
         }
       } catch (err) {
         console.error(`  ✗  ${target.label}/${yearDir}/${code}.pdf — ${(err as Error).message}`)
+        failures.push(`${target.label}/${yearDir}/${code}.pdf — ${(err as Error).message}`)
       }
     }
   }
@@ -345,8 +513,13 @@ async function main() {
     return
   }
 
-  const allThresholds: ParsedThreshold[] = []
-  const allComponents: ParsedComponent[] = []
+  const allThresholds:   ParsedThreshold[]   = []
+  const allComponents:   ParsedComponent[]   = []
+  const allEndorsements: ParsedEndorsement[] = []
+  const failures:        string[]            = []
+  const manifest:        Manifest            = existsSync(MANIFEST_PATH)
+    ? JSON.parse(readFileSync(MANIFEST_PATH, 'utf-8'))
+    : {}
 
   const targets: ScanTarget[] = [
     { label: 'fm', dir: RAW_DIR,              season: 'FM' },
@@ -355,20 +528,31 @@ async function main() {
   ]
 
   for (const target of targets) {
-    await parsePdfsInDir(target, allThresholds, allComponents)
+    await parsePdfsInDir(target, allThresholds, allComponents, allEndorsements, failures, manifest)
   }
 
-  if (allThresholds.length === 0) {
+  if (allThresholds.length === 0 && failures.length === 0) {
     console.log('No PDFs found. Run pnpm pipeline:scrape first.')
     return
   }
 
+  // A partial parse must not replace the seeder's input
+  if (failures.length > 0) {
+    console.error(`\n${failures.length} PDFs could not be parsed:`)
+    for (const f of failures) console.error(`  ${f}`)
+    console.error('Add a layout to THRESHOLD_FORMATS in scripts/parser.ts for any new format.')
+    console.error(`Nothing written to ${PARSED_DIR}.`)
+    process.exit(1)
+  }
+
   writeFileSync(join(PARSED_DIR, 'thresholds.json'), JSON.stringify(allThresholds, null, 2))
   writeFileSync(join(PARSED_DIR, 'components.json'), JSON.stringify(allComponents, null, 2))
+  writeFileSync(join(PARSED_DIR, 'endorsements.json'), JSON.stringify(allEndorsements, null, 2))
 
   console.log(`\n── Summary ────────────────────────────────────────`)
   console.log(`Overall thresholds: ${allThresholds.length} rows`)
-  console.log(`Component maxima:   ${allComponents.length} rows`)
+  console.log(`Component rows:     ${allComponents.length} rows`)
+  console.log(`Endorsement rows:   ${allEndorsements.length} rows`)
 
   const bySeason: Record<string, number> = {}
   for (const t of allThresholds) {
@@ -377,4 +561,7 @@ async function main() {
   console.log('\nRows by season:', bySeason)
 }
 
-main().catch(console.error)
+// Only run when invoked directly (pnpm pipeline:parse), not when imported by the tests
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch(console.error)
+}
@@ -7,21 +7,34 @@
  * MJ (May/June):  dynamic discovery → scripts/raw/mj/{year}/{code}.pdf
  * ON (Oct/Nov):   dynamic discovery → scripts/raw/on/{year}/{code}.pdf
  *
+ * Every PDF's source URL and SHA-256 are recorded in scripts/raw/manifest.json,
+ * keyed by its path under scripts/raw/, for the parser to carry into each row.
+ *
  * Run with: pnpm pipeline:scrape
  * Files are skipped if already present.
  */
 
-import { writeFileSync, mkdirSync, existsSync } from 'fs'
+import { createHash } from 'crypto'
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const RAW_DIR = join(__dirname, 'raw')
+const MANIFEST_PATH = join(RAW_DIR, 'manifest.json')
 const BASE_URL = 'https://www.cambridgeinternational.org'
 
+export interface ManifestEntry {
+  url: string
+  sha256: string
+  downloaded_at: string | null // null for files downloaded before the manifest existed
+}
+
+export type Manifest = Record<string, ManifestEntry>
+
 const SUPPORTED_CODES = new Set([
   '0417', '0450', '0452', '0455', '0460', '0470', '0475', '0478',
-  '0495', '0500', '0520', '0549', '0580', '0606', '0610', '0620', '0625', '0653',
+  '0495', '0500', '0520', '0549', '0580', '0606', '0610', '0620', '0625', '0653', '0654',
 ])
 
 const MJ_YEARS = ['2021', '2022', '2023', '2024', '2025']
@@ -110,10 +123,42 @@ const THRESHOLD_URLS: Record<string, Record<string, string>> = {
   },
 }
 
-async function downloadFile(url: string, dest: string): Promise<void> {
+function loadManifest(): Manifest {
+  return existsSync(MANIFEST_PATH) ? JSON.parse(readFileSync(MANIFEST_PATH, 'utf-8')) : {}
+}
+
+function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex')
+}
+
+async function downloadFile(url: string, dest: string): Promise<Buffer> {
   const res = await fetch(url)
   if (!res.ok) throw new Error(`HTTP ${res.status}`)
-  writeFileSync(dest, Buffer.from(await res.arrayBuffer()))
+  const buffer = Buffer.from(await res.arrayBuffer())
+  writeFileSync(dest, buffer)
+  return buffer
+}
+
+/**
+ * Downloads a PDF unless already present, recording it in the manifest either
+ * way so PDFs fetched before the manifest existed still get a source.
+ */
+async function fetchPdf(manifest: Manifest, url: string, relPath: string) {
+  const dest = join(RAW_DIR, relPath)
+  if (existsSync(dest)) {
+    if (!manifest[relPath]) {
+      manifest[relPath] = { url, sha256: sha256(readFileSync(dest)), downloaded_at: null }
+    }
+    console.log(`  ↷  ${relPath} — already present, skipping`)
+    return
+  }
+  try {
+    const buffer = await downloadFile(url, dest)
+    manifest[relPath] = { url, sha256: sha256(buffer), downloaded_at: new Date().toISOString() }
+    console.log(`  ✓  ${relPath}`)
+  } catch (err) {
+    console.error(`  ✗  ${relPath}: ${(err as Error).message}`)
+  }
 }
 
 /** Fetch a Cambridge threshold tables page and return { code → pdfUrl } for our subjects */
@@ -138,7 +183,7 @@ async function discoverPdfUrls(pageUrl: string): Promise<Record<string, string>>
   return result
 }
 
-async function scrapeSeasonYear(season: string, year: string, pageUrl: string) {
+async function scrapeSeasonYear(manifest: Manifest, season: string, year: string, pageUrl: string) {
   const seasonDir = join(RAW_DIR, season, year)
   mkdirSync(seasonDir, { recursive: true })
 
@@ -156,23 +201,15 @@ async function scrapeSeasonYear(season: string, year: string, pageUrl: string) {
   }
 
   for (const [code, url] of Object.entries(discovered)) {
-    const dest = join(seasonDir, `${code}.pdf`)
-    if (existsSync(dest)) {
-      console.log(`  ↷  ${season}/${year}/${code}.pdf — already present, skipping`)
-      continue
-    }
-    try {
-      await downloadFile(url, dest)
-      console.log(`  ✓  ${season}/${year}/${code}.pdf`)
-    } catch (err) {
-      console.error(`  ✗  ${season}/${year}/${code}: ${(err as Error).message}`)
-    }
+    await fetchPdf(manifest, url, `${season}/${year}/${code}.pdf`)
   }
 }
 
 async function main() {
   console.log('Scraping Cambridge IGCSE grade threshold PDFs...\n')
 
+  const manifest = loadManifest()
+
   // FM: hardcoded URLs (already downloaded)
   console.log('── FM (Feb/March) ──')
   for (const [year, subjects] of Object.entries(THRESHOLD_URLS)) {
@@ -180,17 +217,7 @@ async function main() {
     mkdirSync(yearDir, { recursive: true })
 
     for (const [code, url] of Object.entries(subjects)) {
-      const dest = join(yearDir, `${code}.pdf`)
-      if (existsSync(dest)) {
-        console.log(`  ↷  ${year}/${code}.pdf — already present, skipping`)
-        continue
-      }
-      try {
-        await downloadFile(url, dest)
-        console.log(`  ✓  ${year}/${code}.pdf`)
-      } catch (err) {
-        console.error(`  ✗  ${year}/${code}: ${(err as Error).message}`)
-      }
+      await fetchPdf(manifest, url, `${year}/${code}.pdf`)
     }
   }
 
@@ -198,10 +225,12 @@ async function main() {
   for (const [season, yearMap] of Object.entries(SEASON_PAGES)) {
     console.log(`\n── ${season.toUpperCase()} (${season === 'mj' ? 'May/June' : 'Oct/Nov'}) ──`)
     for (const [year, pageUrl] of Object.entries(yearMap)) {
-      await scrapeSeasonYear(season, year, pageUrl)
+      await scrapeSeasonYear(manifest, season, year, pageUrl)
     }
   }
 
+  writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2))
+
   console.log('\nScrape complete.')
 }
 
@@ -0,0 +1,100 @@
+/**
+ * seed-diff.ts
+ *
+ * Compares what the seeder would write with what the database holds, for
+ * pnpm pipeline:seed --dry-run. Rows are matched on the natural keys in
+ * lib/data/keys.ts (syllabus code, paper number, series…) rather than ids, so
+ * a diff reads the same whichever database it was taken against.
+ *
+ * Covers subjects, papers and overall (subject) thresholds.
+ */
+
+export interface FieldChange {
+  before: unknown
+  after:  unknown
+}
+
+export interface RowChange {
+  key:    string
+  fields: Record<string, FieldChange>
+}
+
+export interface TableDiff {
+  added:   string[]
+  changed: RowChange[]
+  removed: string[] // in the database but not in the seed input
+}
+
+export interface SeedDiff {
+  generated_at: string
+  subjects:     TableDiff
+  papers:       TableDiff
+  thresholds:   TableDiff
+}
+
+// ── Diff ─────────────────────────────────────────────────────────────────────
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/** Rows keyed by natural key; only the listed fields are compared. */
+export function diffRows<T extends object>(
+  current: Record<string, T>,
+  desired: Record<string, T>,
+  fields:  (keyof T & string)[],
+): TableDiff {
+  const diff: TableDiff = { added: [], changed: [], removed: [] }
+
+  for (const [key, after] of Object.entries(desired)) {
+    const before = current[key]
+    if (!before) {
+      diff.added.push(key)
+      continue
+    }
+
+    const changes: Record<string, FieldChange> = {}
+    for (const field of fields) {
+      if (!sameValue(before[field], after[field])) changes[field] = { before: before[field], after: after[field] }
+    }
+    if (Object.keys(changes).length > 0) diff.changed.push({ key, fields: changes })
+  }
+
+  for (const key of Object.keys(current)) {
+    if (!desired[key]) diff.removed.push(key)
+  }
+
+  diff.added.sort()
+  diff.changed.sort((a, b) => a.key.localeCompare(b.key))
+  diff.removed.sort()
+  return diff
+}
+
+// ── Output ───────────────────────────────────────────────────────────────────
+
+/** Console summary of a diff, listing up to `limit` rows per table and kind. */
+export function formatDiff(diff: SeedDiff, limit = 20): string[] {
+  const lines: string[] = []
+  const tables: [string, TableDiff][] = [
+    ['Subjects',   diff.subjects],
+    ['Papers',     diff.papers],
+    ['Thresholds', diff.thresholds],
+  ]
+
+  for (const [name, table] of tables) {
+    lines.push(`\n── ${name}: +${table.added.length} ~${table.changed.length} -${table.removed.length} ──`)
+
+    const list = (marker: string, items: string[]) => {
+      for (const item of items.slice(0, limit)) lines.push(`  ${marker} ${item}`)
+      if (items.length > limit) lines.push(`    … ${items.length - limit} more`)
+    }
+
+    list('+', table.added)
+    list('~', table.changed.map((c) =>
+      `${c.key}: ${Object.entries(c.fields).map(([f, v]) => `${f} ${JSON.stringify(v.before)} → ${JSON.stringify(v.after)}`).join(', ')}`
+    ))
+    list('-', table.removed)
+  }
+
+  return lines
+}
@@ -4,25 +4,55 @@
  * Reads:
  *   - Subject config JSON files from data/subjects/
  *   - Parsed threshold JSON from scripts/parsed/thresholds.json
+ *   - Parsed component JSON from scripts/parsed/components.json
+ *   - Parsed endorsement JSON from scripts/parsed/endorsements.json
+ *   - UMS conversion tables from data/ums/ (see data/ums/README.md)
  *
  * Upserts everything into the Supabase database.
- * Safe to run multiple times — all operations are upserts.
+ * Safe to run multiple times — all operations are upserts. Papers are upserted
+ * on (subject, paper number, tier, valid_from), so their ids — which saved
+ * estimates reference — survive re-seeds; papers dropped from a subject JSON
+ * are deleted.
+ *
+ * --dry-run writes nothing: it diffs the rows a seed would write against the
+ * database (subjects, papers, overall thresholds), prints the added, changed
+ * and removed rows and writes scripts/reports/seed-diff.json.
+ *
+ * Parsed thresholds are validated first (see validate.ts); any error stops
+ * the seed before anything is written.
  *
  * Requires environment variables:
  *   NEXT_PUBLIC_SUPABASE_URL
  *   SUPABASE_SERVICE_ROLE_KEY
+ *
+ * Run with: pnpm pipeline:seed [--dry-run]
  */
 
 import { createClient } from '@supabase/supabase-js'
-import { readFileSync, readdirSync, existsSync } from 'fs'
+import { readFileSync, readdirSync, writeFileSync, mkdirSync, existsSync } from 'fs'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
-import type { SubjectConfig } from '@/types'
-import type { ParsedThreshold, ParsedComponent } from './parser.js'
+import type { PaperConfig, SubjectConfig, UmsConversionConfig } from '@/types'
+import { isValidIn } from '@/lib/syllabus-versions'
+import {
+  averageComponentVariants,
+  componentMaxMark,
+  deriveSyllabusOptions,
+  paperOptionCodes,
+} from '@/lib/data/derive'
+import type { ParsedThreshold, ParsedComponent, ParsedEndorsement } from '@/lib/data/parsed'
+import { runValidation } from './validate.js'
+import { type SeedDiff, diffRows, formatDiff } from './seed-diff.js'
+import { paperKey, thresholdKey } from '@/lib/data/keys'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
-const DATA_DIR   = join(__dirname, '..', 'data', 'subjects')
-const PARSED_DIR = join(__dirname, 'parsed')
+const DATA_DIR    = join(__dirname, '..', 'data', 'subjects')
+const UMS_DIR     = join(__dirname, '..', 'data', 'ums')
+const PARSED_DIR  = join(__dirname, 'parsed')
+const REPORTS_DIR = join(__dirname, 'reports')
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
 
 // Use service role key — bypasses RLS for seeding
 const supabase = createClient(
@@ -30,24 +60,67 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 )
 
+// ── Rows ─────────────────────────────────────────────────────────────────────
+// Shared by the seed and --dry-run, so the diff compares exactly what a seed writes.
+
+function loadSubjectConfigs(): SubjectConfig[] {
+  return readdirSync(DATA_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => JSON.parse(readFileSync(join(DATA_DIR, f), 'utf-8')))
+}
+
+function subjectRow(config: SubjectConfig) {
+  return {
+    syllabus_code: config.code,
+    name:          config.name,
+    has_tiers:     config.has_tiers,
+    grading_scale: config.grading_scale ?? 'A*-G',
+  }
+}
+
+function paperRow(p: PaperConfig) {
+  return {
+    paper_number:      p.paper_number,
+    name:              p.name,
+    tier:              p.tier ?? null,
+    is_ums:            p.is_ums,
+    max_raw_mark:      p.max_raw_mark,
+    max_ums_mark:      p.max_ums_mark ?? null,
+    weight_percentage: p.weight_percentage,
+    paper_group:       p.paper_group ?? null,
+    is_endorsement:    p.is_endorsement ?? false,
+    valid_from:        p.valid_from ?? null,
+    valid_to:          p.valid_to ?? null,
+  }
+}
+
+function thresholdRow(row: ParsedThreshold, g: ParsedThreshold['grades'][number]) {
+  return {
+    tier:          row.tier,
+    option_code:   row.option_code,
+    is_default:    row.is_default ?? true, // older parses only kept the default option
+    grade:         g.grade,
+    min_mark:      g.min_mark,
+    max_mark:      row.max_mark,
+    source_url:    row.source?.url ?? null,
+    source_sha256: row.source?.sha256 ?? null,
+    parser_format: row.source?.format ?? null,
+    parsed_at:     row.source?.parsed_at ?? null,
+  }
+}
+
+// ── Seed ─────────────────────────────────────────────────────────────────────
+
 async function seedSubjects(): Promise<Record<string, string>> {
   console.log('\n── Seeding subjects & papers ──')
 
-  const files = readdirSync(DATA_DIR).filter((f) => f.endsWith('.json'))
   const subjectCodeToId: Record<string, string> = {}
 
-  for (const file of files) {
-    const config: SubjectConfig = JSON.parse(
-      readFileSync(join(DATA_DIR, file), 'utf-8')
-    )
-
+  for (const config of loadSubjectConfigs()) {
     // Upsert subject
     const { data: subject, error: subjectError } = await supabase
       .from('subjects')
-      .upsert(
-        { syllabus_code: config.code, name: config.name, has_tiers: config.has_tiers },
-        { onConflict: 'syllabus_code' }
-      )
+      .upsert(subjectRow(config), { onConflict: 'syllabus_code' })
       .select('id')
       .single()
 
@@ -58,50 +131,44 @@ async function seedSubjects(): Promise<Record<string, string>> {
 
     subjectCodeToId[config.code] = subject.id
 
-    // Delete existing papers then re-insert — avoids PostgreSQL NULL uniqueness issues
-    await supabase.from('papers').delete().eq('subject_id', subject.id)
-
-    const paperRows = config.papers.map((p) => ({
-      subject_id:        subject.id,
-      paper_number:      p.paper_number,
-      name:              p.name,
-      tier:              p.tier ?? null,
-      is_ums:            p.is_ums,
-      max_raw_mark:      p.max_raw_mark,
-      max_ums_mark:      p.max_ums_mark ?? null,
-      weight_percentage: p.weight_percentage,
-      paper_group:       p.paper_group ?? null,
-    }))
+    const { data: existing } = await supabase
+      .from('papers')
+      .select('id, paper_number, tier, valid_from')
+      .eq('subject_id', subject.id)
 
-    const { error: papersError } = await supabase.from('papers').insert(paperRows)
+    // Upsert on the natural key (papers_version_key) so paper ids survive re-seeds
+    const paperRows = config.papers.map((p) => ({ subject_id: subject.id, ...paperRow(p) }))
+    const { error: papersError } = await supabase
+      .from('papers')
+      .upsert(paperRows, { onConflict: 'subject_id,paper_number,tier,valid_from' })
 
     if (papersError) {
-      console.error(`  ERROR inserting papers for ${config.code}: ${papersError.message}`)
-    } else {
-      console.log(`  ✓ ${config.name} (${config.code}) — ${config.papers.length} papers`)
+      console.error(`  ERROR upserting papers for ${config.code}: ${papersError.message}`)
+      continue
     }
-  }
 
-  return subjectCodeToId
-}
+    // Papers no longer in the subject JSON
+    const wanted = new Set(paperRows.map((p) => paperKey(config.code, p)))
+    const stale  = (existing ?? [])
+      .filter((p: { paper_number: string; tier: string | null; valid_from: number | null }) => !wanted.has(paperKey(config.code, p)))
+      .map((p: { id: string }) => p.id)
 
-async function seedThresholds(subjectCodeToId: Record<string, string>) {
-  console.log('\n── Seeding overall grade thresholds ──')
-
-  const thresholdsPath = join(PARSED_DIR, 'thresholds.json')
+    if (stale.length > 0) {
+      const { error: deleteError } = await supabase.from('papers').delete().in('id', stale)
+      if (deleteError) console.error(`  ERROR removing old papers for ${config.code}: ${deleteError.message}`)
+    }
 
-  if (!existsSync(thresholdsPath)) {
-    console.log('  No parsed thresholds found. Run pnpm pipeline:parse first.')
-    return
+    console.log(`  ✓ ${config.name} (${config.code}) — ${config.papers.length} papers${stale.length > 0 ? `, ${stale.length} removed` : ''}`)
   }
 
-  const rows: ParsedThreshold[] = JSON.parse(readFileSync(thresholdsPath, 'utf-8'))
+  return subjectCodeToId
+}
 
-  // Upsert series records
+/** Upserts series records for the given `${season}_${year}` keys, returning key → series id. */
+async function upsertSeries(keys: string[]): Promise<Record<string, string>> {
   const seriesMap: Record<string, string> = {}
-  const uniqueSeries = [...new Set(rows.map((r) => `${r.season}_${r.year}`))]
 
-  for (const key of uniqueSeries) {
+  for (const key of [...new Set(keys)]) {
     const [season, yearStr] = key.split('_')
     const { data, error } = await supabase
       .from('series')
@@ -116,6 +183,23 @@ async function seedThresholds(subjectCodeToId: Record<string, string>) {
     seriesMap[key] = data.id
   }
 
+  return seriesMap
+}
+
+async function seedThresholds(subjectCodeToId: Record<string, string>) {
+  console.log('\n── Seeding overall grade thresholds ──')
+
+  const thresholdsPath = join(PARSED_DIR, 'thresholds.json')
+
+  if (!existsSync(thresholdsPath)) {
+    console.log('  No parsed thresholds found. Run pnpm pipeline:parse first.')
+    return
+  }
+
+  const rows: ParsedThreshold[] = JSON.parse(readFileSync(thresholdsPath, 'utf-8'))
+
+  const seriesMap = await upsertSeries(rows.map((r) => `${r.season}_${r.year}`))
+
   let seeded  = 0
   let skipped = 0
 
@@ -129,27 +213,97 @@ async function seedThresholds(subjectCodeToId: Record<string, string>) {
     const gradeRows = row.grades.map((g) => ({
       subject_id: subjectId,
       series_id:  seriesId,
-      tier:       row.tier,
-      grade:      g.grade,
-      min_mark:   g.min_mark,
-      max_mark:   row.max_mark,
+      ...thresholdRow(row, g),
     }))
 
     const { error } = await supabase
       .from('subject_thresholds')
-      .upsert(gradeRows, { onConflict: 'subject_id,series_id,tier,grade' })
+      .upsert(gradeRows, { onConflict: 'subject_id,series_id,tier,option_code,grade' })
 
     if (error) {
-      console.error(`  ERROR: ${row.syllabus_code} ${row.year} ${row.tier ?? 'no-tier'}: ${error.message}`)
-    } else {
-      seeded++
+      console.error(`  ERROR: ${row.syllabus_code} ${row.year} ${row.tier ?? 'no-tier'} ${row.option_code}: ${error.message}`)
+      continue
     }
+    seeded++
+
+    // Rows seeded before options were recorded (migration 005) have no option_code,
+    // so the upsert above can't replace them — drop them once their option is in
+    const staleQuery = supabase
+      .from('subject_thresholds')
+      .delete()
+      .eq('subject_id', subjectId)
+      .eq('series_id', seriesId)
+      .is('option_code', null)
+    const { error: staleError } = await (row.tier ? staleQuery.eq('tier', row.tier) : staleQuery.is('tier', null))
+    if (staleError) console.error(`  ERROR removing option-less rows for ${row.syllabus_code} ${row.year}: ${staleError.message}`)
   }
 
   console.log(`  ✓ ${seeded} threshold rows seeded`)
   if (skipped > 0) console.log(`  ⚠ ${skipped} rows skipped (subject not in DB)`)
 }
 
+/**
+ * Records every syllabus option seen in the parsed thresholds and tags papers
+ * with the options they are sat under. An option's components (e.g. 22, 42, 62)
+ * map to paper numbers by their first digit, as for component thresholds.
+ */
+async function seedSyllabusOptions(subjectCodeToId: Record<string, string>) {
+  const thresholdsPath = join(PARSED_DIR, 'thresholds.json')
+  if (!existsSync(thresholdsPath)) return
+
+  console.log('\n── Seeding syllabus options ──')
+
+  const rows: ParsedThreshold[] = JSON.parse(readFileSync(thresholdsPath, 'utf-8'))
+  const optionNames: Record<string, string> = {}
+  for (const config of loadSubjectConfigs()) {
+    for (const o of config.options ?? []) optionNames[`${config.code}_${o.code}`] = o.name
+  }
+
+  const options = deriveSyllabusOptions(rows)
+
+  let seeded = 0
+  for (const o of options) {
+    const subjectId = subjectCodeToId[o.syllabus_code]
+    if (!subjectId) continue
+
+    const { error } = await supabase
+      .from('syllabus_options')
+      .upsert({
+        subject_id:  subjectId,
+        tier:        o.tier,
+        option_code: o.option_code,
+        name:        optionNames[`${o.syllabus_code}_${o.option_code}`] ?? null,
+        components:  o.components,
+        is_default:  o.is_default,
+      }, { onConflict: 'subject_id,tier,option_code' })
+
+    if (error) {
+      console.error(`  ERROR: ${o.syllabus_code} option ${o.option_code}: ${error.message}`)
+      continue
+    }
+    seeded++
+  }
+
+  let tagged = 0
+  for (const [key, codes] of Object.entries(paperOptionCodes(options))) {
+    const [code, tier, paperNum] = key.split('|')
+    const subjectId = subjectCodeToId[code]
+    if (!subjectId) continue
+
+    let query = supabase
+      .from('papers')
+      .update({ option_codes: codes })
+      .eq('subject_id', subjectId)
+      .eq('paper_number', paperNum)
+    query = tier ? query.eq('tier', tier) : query.is('tier', null)
+
+    const { error } = await query
+    if (!error) tagged++
+  }
+
+  console.log(`  ✓ ${seeded} options seeded, ${tagged} papers tagged with their options`)
+}
+
 async function updatePaperMaxMarks(subjectCodeToId: Record<string, string>) {
   const componentsPath = join(PARSED_DIR, 'components.json')
   if (!existsSync(componentsPath)) return
@@ -158,27 +312,28 @@ async function updatePaperMaxMarks(subjectCodeToId: Record<string, string>) {
 
   const components: ParsedComponent[] = JSON.parse(readFileSync(componentsPath, 'utf-8'))
 
-  // Aggregate: for each subject+paper_number, take the mark from the most recent year
-  const latestByPaper: Record<string, { year: number; max_mark: number }> = {}
-  for (const c of components) {
-    const key = `${c.syllabus_code}_${c.paper_number}`
-    const existing = latestByPaper[key]
-    if (!existing || c.year > existing.year) {
-      latestByPaper[key] = { year: c.year, max_mark: c.max_mark }
-    }
+  const { data: papers, error: papersError } = await supabase
+    .from('papers')
+    .select('id, subject_id, paper_number, valid_from, valid_to')
+
+  if (papersError || !papers) {
+    console.error(`  ERROR fetching papers: ${papersError?.message}`)
+    return
   }
 
+  const codeBySubjectId = Object.fromEntries(Object.entries(subjectCodeToId).map(([code, id]) => [id, code]))
+
+  // For each paper (one row per syllabus version), take the mark from the most recent year it was sat
   let updated = 0
-  for (const [key, { max_mark }] of Object.entries(latestByPaper)) {
-    const [code, paperNum] = key.split('_')
-    const subjectId = subjectCodeToId[code]
-    if (!subjectId || paperNum === '0') continue  // skip coursework components
+  for (const p of papers) {
+    const code = codeBySubjectId[p.subject_id]
+    const maxMark = code ? componentMaxMark(components, code, p) : null
+    if (maxMark === null) continue
 
     const { error } = await supabase
       .from('papers')
-      .update({ max_raw_mark: max_mark })
-      .eq('subject_id', subjectId)
-      .eq('paper_number', paperNum)
+      .update({ max_raw_mark: maxMark })
+      .eq('id', p.id)
 
     if (!error) updated++
   }
@@ -186,8 +341,293 @@ async function updatePaperMaxMarks(subjectCodeToId: Record<string, string>) {
   console.log(`  ✓ ${updated} paper max marks updated from threshold documents`)
 }
 
+async function seedComponentThresholds(subjectCodeToId: Record<string, string>) {
+  const componentsPath = join(PARSED_DIR, 'components.json')
+  if (!existsSync(componentsPath)) return
+
+  console.log('\n── Seeding component grade thresholds ──')
+
+  const components: ParsedComponent[] = JSON.parse(readFileSync(componentsPath, 'utf-8'))
+  const graded = averageComponentVariants(components)
+
+  if (graded.length === 0) {
+    console.log('  No component boundaries found. Re-run pnpm pipeline:parse.')
+    return
+  }
+
+  const seriesMap = await upsertSeries(graded.map((c) => `${c.season}_${c.year}`))
+
+  const { data: papers, error: papersError } = await supabase
+    .from('papers')
+    .select('id, subject_id, paper_number, valid_from, valid_to')
+
+  if (papersError || !papers) {
+    console.error(`  ERROR fetching papers: ${papersError?.message}`)
+    return
+  }
+
+  let seeded  = 0
+  let skipped = 0
+
+  for (const c of graded) {
+    const subjectId = subjectCodeToId[c.syllabus_code]
+    const seriesId  = seriesMap[`${c.season}_${c.year}`]
+    // Tiered subjects share components such as Paper 5; only the version sat that year applies
+    const ids       = papers
+      .filter((p) => p.subject_id === subjectId && p.paper_number === c.paper_number && isValidIn(p, c.year))
+      .map((p) => p.id)
+    if (!seriesId || ids.length === 0) { skipped++; continue }
+
+    const gradeRows = ids.flatMap((paperId) =>
+      c.grades.map((g) => ({
+        paper_id:  paperId,
+        series_id: seriesId,
+        grade:     g.grade,
+        min_mark:  g.min_mark,
+      }))
+    )
+
+    const { error } = await supabase
+      .from('grade_thresholds')
+      .upsert(gradeRows, { onConflict: 'paper_id,series_id,grade' })
+
+    if (error) {
+      console.error(`  ERROR: ${c.syllabus_code} paper ${c.paper_number} ${c.season} ${c.year}: ${error.message}`)
+    } else {
+      seeded++
+    }
+  }
+
+  console.log(`  ✓ ${seeded} component threshold sets seeded`)
+  if (skipped > 0) console.log(`  ⚠ ${skipped} sets skipped (paper not in DB)`)
+}
+
+async function seedEndorsementThresholds(subjectCodeToId: Record<string, string>) {
+  const endorsementsPath = join(PARSED_DIR, 'endorsements.json')
+  if (!existsSync(endorsementsPath)) return
+
+  console.log('\n── Seeding endorsement thresholds ──')
+
+  const endorsements: ParsedEndorsement[] = JSON.parse(readFileSync(endorsementsPath, 'utf-8'))
+  if (endorsements.length === 0) {
+    console.log('  No endorsement boundaries found.')
+    return
+  }
+
+  const seriesMap = await upsertSeries(endorsements.map((e) => `${e.season}_${e.year}`))
+
+  const { data: papers, error: papersError } = await supabase
+    .from('papers')
+    .select('id, subject_id, paper_number, valid_from, valid_to')
+    .eq('is_endorsement', true)
+
+  if (papersError || !papers) {
+    console.error(`  ERROR fetching endorsement papers: ${papersError?.message}`)
+    return
+  }
+
+  let seeded  = 0
+  let skipped = 0
+
+  for (const e of endorsements) {
+    const subjectId = subjectCodeToId[e.syllabus_code]
+    const seriesId  = seriesMap[`${e.season}_${e.year}`]
+    const paper     = papers.find((p) =>
+      p.subject_id === subjectId && p.paper_number === e.paper_number && isValidIn(p, e.year)
+    )
+    if (!seriesId || !paper) { skipped++; continue }
+
+    const gradeRows = e.grades.map((g) => ({
+      paper_id:  paper.id,
+      series_id: seriesId,
+      grade:     g.grade,
+      min_mark:  g.min_mark,
+    }))
+
+    const { error } = await supabase
+      .from('endorsement_thresholds')
+      .upsert(gradeRows, { onConflict: 'paper_id,series_id,grade' })
+
+    if (error) {
+      console.error(`  ERROR: ${e.syllabus_code} component ${e.component_code} ${e.season} ${e.year}: ${error.message}`)
+    } else {
+      seeded++
+    }
+  }
+
+  console.log(`  ✓ ${seeded} endorsement threshold sets seeded`)
+  if (skipped > 0) console.log(`  ⚠ ${skipped} sets skipped (no is_endorsement paper in DB)`)
+}
+
+async function seedUmsConversions(subjectCodeToId: Record<string, string>) {
+  if (!existsSync(UMS_DIR)) return
+
+  const files = readdirSync(UMS_DIR).filter((f) => f.endsWith('.json'))
+  if (files.length === 0) return
+
+  console.log('\n── Seeding UMS conversion tables ──')
+
+  const configs: UmsConversionConfig[] = files.map((f) =>
+    JSON.parse(readFileSync(join(UMS_DIR, f), 'utf-8'))
+  )
+  const seriesMap = await upsertSeries(
+    configs.flatMap((c) => c.conversions.map((t) => `${t.season}_${t.year}`))
+  )
+
+  let seeded  = 0
+  let skipped = 0
+
+  for (const config of configs) {
+    const subjectId = subjectCodeToId[config.code]
+    if (!subjectId) { skipped += config.conversions.length; continue }
+
+    const { data: papers, error: papersError } = await supabase
+      .from('papers')
+      .select('id, paper_number, tier, is_ums, valid_from, valid_to')
+      .eq('subject_id', subjectId)
+
+    if (papersError || !papers) {
+      console.error(`  ERROR fetching papers for ${config.code}: ${papersError?.message}`)
+      continue
+    }
+
+    for (const table of config.conversions) {
+      const seriesId = seriesMap[`${table.season}_${table.year}`]
+      // A table without a tier applies to every tier's copy of the paper
+      const targets = papers.filter((p) =>
+        p.paper_number === table.paper_number &&
+        (!table.tier || p.tier === table.tier) &&
+        isValidIn(p, table.year)
+      )
+      if (!seriesId || targets.length === 0) { skipped++; continue }
+
+      for (const p of targets) {
+        if (!p.is_ums) {
+          console.warn(`  ⚠ ${config.code} paper ${p.paper_number} has a UMS table but is_ums is false`)
+        }
+      }
+
+      const rows = targets.flatMap((p) =>
+        table.points.map((pt) => ({
+          paper_id:  p.id,
+          series_id: seriesId,
+          raw_mark:  pt.raw_mark,
+          ums_mark:  pt.ums_mark,
+        }))
+      )
+
+      const { error } = await supabase
+        .from('ums_conversions')
+        .upsert(rows, { onConflict: 'paper_id,series_id,raw_mark' })
+
+      if (error) {
+        console.error(`  ERROR: ${config.code} paper ${table.paper_number} ${table.season} ${table.year}: ${error.message}`)
+      } else {
+        seeded++
+      }
+    }
+  }
+
+  console.log(`  ✓ ${seeded} UMS conversion tables seeded`)
+  if (skipped > 0) console.log(`  ⚠ ${skipped} tables skipped (subject, paper or series not in DB)`)
+}
+
+// ── Dry run ──────────────────────────────────────────────────────────────────
+
+/** Reads every row of a table, a page at a time. */
+async function selectAll<T>(table: string, columns: string): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase.from(table).select(columns).range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`reading ${table}: ${error.message}`)
+    rows.push(...(data as T[]))
+    if (data.length < PAGE_SIZE) return rows
+  }
+}
+
+function readParsed<T>(file: string): T[] {
+  const path = join(PARSED_DIR, file)
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : []
+}
+
+/**
+ * Diffs the rows a seed would write against the database, writing nothing.
+ * Subjects and thresholds missing from the seed input are reported as removed
+ * but left in place by a seed; removed papers are deleted.
+ */
+async function dryRun() {
+  console.log('\n── Dry run: diffing against the database ──')
+
+  const configs    = loadSubjectConfigs()
+  const thresholds = readParsed<ParsedThreshold>('thresholds.json')
+  const components = readParsed<ParsedComponent>('components.json')
+
+  type SubjectRow   = ReturnType<typeof subjectRow>
+  type PaperRow     = ReturnType<typeof paperRow>
+  type ThresholdRow = ReturnType<typeof thresholdRow>
+
+  const dbSubjects   = await selectAll<SubjectRow & { id: string }>('subjects', 'id, syllabus_code, name, has_tiers, grading_scale')
+  const dbPapers     = await selectAll<PaperRow & { subject_id: string }>('papers',
+    'subject_id, paper_number, name, tier, is_ums, max_raw_mark, max_ums_mark, weight_percentage, paper_group, is_endorsement, valid_from, valid_to')
+  const dbSeries     = await selectAll<{ id: string; year: number; season: string }>('series', 'id, year, season')
+  const dbThresholds = await selectAll<ThresholdRow & { subject_id: string; series_id: string }>('subject_thresholds',
+    'subject_id, series_id, tier, option_code, is_default, grade, min_mark, max_mark, source_url, source_sha256')
+
+  const codeById   = Object.fromEntries(dbSubjects.map((s) => [s.id, s.syllabus_code]))
+  const seriesById = Object.fromEntries(dbSeries.map((s) => [s.id, s]))
+  const seeded     = new Set(configs.map((c) => c.code))
+
+  const desiredPapers: Record<string, PaperRow> = {}
+  for (const config of configs) {
+    for (const p of config.papers) {
+      const row = paperRow(p)
+      desiredPapers[paperKey(config.code, row)] = {
+        ...row,
+        max_raw_mark: componentMaxMark(components, config.code, row) ?? row.max_raw_mark,
+      }
+    }
+  }
+
+  const currentThresholds: Record<string, ThresholdRow> = {}
+  for (const t of dbThresholds) {
+    const series = seriesById[t.series_id]
+    if (codeById[t.subject_id] && series) currentThresholds[thresholdKey(codeById[t.subject_id], { ...series, ...t })] = t
+  }
+
+  const diff: SeedDiff = {
+    generated_at: new Date().toISOString(),
+    subjects: diffRows(
+      Object.fromEntries(dbSubjects.map((s) => [s.syllabus_code, s])),
+      Object.fromEntries(configs.map((c) => [c.code, subjectRow(c)])),
+      ['name', 'has_tiers', 'grading_scale'],
+    ),
+    papers: diffRows(
+      Object.fromEntries(dbPapers
+        .filter((p) => codeById[p.subject_id])
+        .map((p) => [paperKey(codeById[p.subject_id], p), { ...p, weight_percentage: Number(p.weight_percentage) }])),
+      desiredPapers,
+      ['name', 'is_ums', 'max_raw_mark', 'max_ums_mark', 'weight_percentage', 'paper_group', 'is_endorsement', 'valid_to'],
+    ),
+    // The seeder skips parsed rows for subjects without a JSON
+    thresholds: diffRows(
+      currentThresholds,
+      Object.fromEntries(thresholds
+        .filter((r) => seeded.has(r.syllabus_code))
+        .flatMap((r) => r.grades.map((g) => [thresholdKey(r.syllabus_code, { ...r, grade: g.grade }), thresholdRow(r, g)]))),
+      ['is_default', 'min_mark', 'max_mark', 'source_url', 'source_sha256'],
+    ),
+  }
+
+  mkdirSync(REPORTS_DIR, { recursive: true })
+  writeFileSync(join(REPORTS_DIR, 'seed-diff.json'), JSON.stringify(diff, null, 2))
+
+  for (const line of formatDiff(diff)) console.log(line)
+  console.log(`\nDry run — nothing written. Full diff in ${join(REPORTS_DIR, 'seed-diff.json')}`)
+}
+
 async function main() {
-  console.log('Starting database seed...')
+  const isDryRun = process.argv.includes('--dry-run')
+  console.log(isDryRun ? 'Starting database seed (dry run)...' : 'Starting database seed...')
 
   if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
     console.error('Missing environment variables. Create a .env.local file with:')
@@ -196,9 +636,27 @@ async function main() {
     process.exit(1)
   }
 
+  const validation = runValidation()
+  const blocked    = validation !== null && validation.errors > 0
+
+  if (isDryRun) {
+    await dryRun()
+    if (blocked) console.error('\nParsed thresholds failed validation — a real seed would stop before writing.')
+    return
+  }
+
+  if (blocked) {
+    console.error('\nParsed thresholds failed validation — nothing was seeded. Fix the parse or the subject JSON and re-run.')
+    process.exit(1)
+  }
+
   const subjectCodeToId = await seedSubjects()
   await seedThresholds(subjectCodeToId)
+  await seedSyllabusOptions(subjectCodeToId)
   await updatePaperMaxMarks(subjectCodeToId)
+  await seedComponentThresholds(subjectCodeToId)
+  await seedEndorsementThresholds(subjectCodeToId)
+  await seedUmsConversions(subjectCodeToId)
 
   console.log('\nSeed complete.')
 }
@@ -0,0 +1,335 @@
+/**
+ * validate.ts
+ *
+ * Checks scripts/parsed/thresholds.json before it is seeded. Each row is
+ * checked against its grading scale, the subject JSON in data/subjects/ and
+ * the same option's previous series.
+ *
+ * Errors (block the seeder):
+ *   - grade_order    — grades out of scale order, or a lower grade with a higher min_mark
+ *   - min_above_max  — a grade's min_mark above the row's max_mark
+ *   - missing_grade  — no grades, or a gap inside the run (e.g. A and C but no B)
+ *   - unknown_grade  — a grade not on the subject's grading scale
+ *
+ * Warnings (reported only):
+ *   - missing_grade    — a grade other series of the option have but this one lacks
+ *   - max_mark_weights — max_mark gives a paper an implausible weighting factor,
+ *                        or the paper weights don't add up to 100%
+ *   - year_jump        — a boundary moved more than the tolerance since the previous
+ *                        series of the same season, with the paper structure unchanged
+ *
+ * Writes scripts/reports/validation.json. The seeder runs the same checks and
+ * stops on errors.
+ *
+ * Run with: pnpm pipeline:validate [--tolerance=10]
+ */
+
+import { readFileSync, writeFileSync, readdirSync, mkdirSync, existsSync } from 'fs'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import type { GradingScale, PaperConfig, SubjectConfig } from '@/types'
+import { DEFAULT_GRADING_SCALE, GRADING_SCALES, gradesFor } from '@/lib/grades'
+import { isValidIn } from '@/lib/syllabus-versions'
+import type { ParsedThreshold } from '@/lib/data/parsed'
+
+const __dirname   = dirname(fileURLToPath(import.meta.url))
+const DATA_DIR    = join(__dirname, '..', 'data', 'subjects')
+const PARSED_DIR  = join(__dirname, 'parsed')
+const REPORTS_DIR = join(__dirname, 'reports')
+
+// Largest boundary move (pct points) between consecutive series before it's flagged
+export const DEFAULT_TOLERANCE = 10
+
+// Cambridge scales each paper's raw mark by a weighting factor; outside this range a max_mark is likely misread
+const MIN_WEIGHT_FACTOR = 0.25
+const MAX_WEIGHT_FACTOR = 4
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type ValidationCheck =
+  | 'grade_order'
+  | 'min_above_max'
+  | 'missing_grade'
+  | 'unknown_grade'
+  | 'max_mark_weights'
+  | 'year_jump'
+
+export interface ValidationIssue {
+  severity:      'error' | 'warning'
+  check:         ValidationCheck
+  syllabus_code: string
+  season:        'FM' | 'MJ' | 'ON'
+  year:          number
+  tier:          'Core' | 'Extended' | null
+  option_code:   string
+  grade:         string | null
+  message:       string
+}
+
+export interface ValidationReport {
+  generated_at: string
+  source:       string
+  tolerance:    number
+  rows_checked: number
+  errors:       number
+  warnings:     number
+  issues:       ValidationIssue[]
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toPct(minMark: number, maxMark: number): number {
+  return maxMark > 0 ? Math.round((minMark / maxMark) * 1000) / 10 : 0
+}
+
+/** The row's scale: the subject JSON's, else whichever scale holds its top grade. */
+function scaleOf(row: ParsedThreshold, config: SubjectConfig | undefined): GradingScale {
+  if (config) return config.grading_scale ?? DEFAULT_GRADING_SCALE
+  const top = row.grades[0]?.grade
+  const match = (Object.keys(GRADING_SCALES) as GradingScale[])
+    .find((s) => (GRADING_SCALES[s] as string[]).includes(top))
+  return match ?? DEFAULT_GRADING_SCALE
+}
+
+/**
+ * The weighted papers sat under the row's option in its year: the listed
+ * components when the row has them, else one paper per alternative group.
+ */
+function papersFor(row: ParsedThreshold, config: SubjectConfig): PaperConfig[] {
+  const papers = config.papers.filter((p) =>
+    !p.is_endorsement && (p.tier ?? null) === (config.has_tiers ? row.tier : null) && isValidIn(p, row.year)
+  )
+
+  if (row.components?.length) {
+    const listed = new Set(row.components.map((c) => c.replace(/^0+/, '').charAt(0)))
+    return papers.filter((p) => listed.has(p.paper_number))
+  }
+
+  const groups = new Set<string>()
+  return papers.filter((p) => {
+    if (!p.paper_group) return true
+    if (groups.has(p.paper_group)) return false
+    groups.add(p.paper_group)
+    return true
+  })
+}
+
+/** Identifies a paper structure, so year-on-year checks skip syllabus changes. */
+function structureKey(papers: PaperConfig[]): string {
+  return papers
+    .map((p) => `${p.paper_number}:${p.max_raw_mark}:${p.weight_percentage}`)
+    .sort()
+    .join(',')
+}
+
+export function parseToleranceArg(): number {
+  const arg = process.argv.find((a) => a.startsWith('--tolerance='))
+  const tolerance = arg ? parseFloat(arg.split('=')[1]) : DEFAULT_TOLERANCE
+  return Number.isFinite(tolerance) && tolerance > 0 ? tolerance : DEFAULT_TOLERANCE
+}
+
+// ── Checks ───────────────────────────────────────────────────────────────────
+
+/**
+ * Validates parsed overall thresholds. Pure, so the seeder and tests can call
+ * it with rows and subject configs already in memory.
+ */
+export function validateThresholds(
+  rows:      ParsedThreshold[],
+  subjects:  SubjectConfig[],
+  tolerance: number = DEFAULT_TOLERANCE,
+): ValidationReport {
+  const configs = Object.fromEntries(subjects.map((s) => [s.code, s]))
+  const issues: ValidationIssue[] = []
+
+  const report = (
+    row:      ParsedThreshold,
+    severity: ValidationIssue['severity'],
+    check:    ValidationCheck,
+    grade:    string | null,
+    message:  string,
+  ) => {
+    issues.push({
+      severity,
+      check,
+      syllabus_code: row.syllabus_code,
+      season:        row.season,
+      year:          row.year,
+      tier:          row.tier,
+      option_code:   row.option_code,
+      grade,
+      message,
+    })
+  }
+
+  // Rows of the same option and season, oldest first, for the cross-series checks
+  const history: Record<string, ParsedThreshold[]> = {}
+
+  for (const row of rows) {
+    const config = configs[row.syllabus_code]
+    const scale  = gradesFor(scaleOf(row, config)) as string[]
+
+    if (row.grades.length === 0) {
+      report(row, 'error', 'missing_grade', null, 'no grades parsed')
+    }
+
+    // Per grade: on the scale, within max_mark, below the grade above it
+    const positions: number[] = []
+    row.grades.forEach((g, i) => {
+      const position = scale.indexOf(g.grade)
+      if (position === -1) {
+        report(row, 'error', 'unknown_grade', g.grade, `${g.grade} is not on the ${scaleOf(row, config)} scale`)
+      } else {
+        positions.push(position)
+      }
+
+      if (g.min_mark > row.max_mark) {
+        report(row, 'error', 'min_above_max', g.grade, `min_mark ${g.min_mark} is above max_mark ${row.max_mark}`)
+      }
+
+      const above = row.grades[i - 1]
+      if (above && g.min_mark > above.min_mark) {
+        report(row, 'error', 'grade_order', g.grade,
+          `${g.grade} (${g.min_mark}) needs more marks than ${above.grade} (${above.min_mark})`)
+      }
+    })
+
+    for (let i = 1; i < positions.length; i++) {
+      if (positions[i] <= positions[i - 1]) {
+        report(row, 'error', 'grade_order', scale[positions[i]],
+          `${scale[positions[i]]} is listed after ${scale[positions[i - 1]]}`)
+      } else if (positions[i] > positions[i - 1] + 1) {
+        const gap = scale.slice(positions[i - 1] + 1, positions[i])
+        report(row, 'error', 'missing_grade', gap[0], `no boundary for ${gap.join(', ')} between ${scale[positions[i - 1]]} and ${scale[positions[i]]}`)
+      }
+    }
+
+    if (config) {
+      const papers = papersFor(row, config)
+      const total  = papers.reduce((sum, p) => sum + p.weight_percentage, 0)
+
+      if (papers.length > 0 && total !== 100) {
+        report(row, 'warning', 'max_mark_weights', null,
+          `paper weights sum to ${total}% (${papers.map((p) => `Paper ${p.paper_number}`).join(', ')})`)
+      }
+
+      for (const p of papers) {
+        if (p.max_raw_mark <= 0 || p.weight_percentage <= 0) continue
+        const factor = (row.max_mark * p.weight_percentage / 100) / p.max_raw_mark
+        if (factor < MIN_WEIGHT_FACTOR || factor > MAX_WEIGHT_FACTOR) {
+          report(row, 'warning', 'max_mark_weights', null,
+            `max_mark ${row.max_mark} weights Paper ${p.paper_number} ` +
+            `(${p.max_raw_mark} raw marks, ${p.weight_percentage}%) by ${factor.toFixed(2)}`)
+        }
+      }
+    }
+
+    const key = `${row.syllabus_code}|${row.tier ?? ''}|${row.option_code}|${row.season}`
+    if (!history[key]) history[key] = []
+    history[key].push(row)
+  }
+
+  for (const series of Object.values(history)) {
+    series.sort((a, b) => a.year - b.year)
+    const config = configs[series[0].syllabus_code]
+
+    // Grades most series publish but this one lacks — usually a misaligned column
+    const counts: Record<string, number> = {}
+    for (const row of series) {
+      for (const g of row.grades) counts[g.grade] = (counts[g.grade] ?? 0) + 1
+    }
+    for (const row of series) {
+      const have = new Set(row.grades.map((g) => g.grade))
+      for (const [grade, count] of Object.entries(counts)) {
+        if (!have.has(grade) && count > series.length / 2) {
+          report(row, 'warning', 'missing_grade', grade, `${grade} is published in ${count} of ${series.length} series but not this one`)
+        }
+      }
+    }
+
+    for (let i = 1; i < series.length; i++) {
+      const prev = series[i - 1]
+      const row  = series[i]
+      if (config && structureKey(papersFor(prev, config)) !== structureKey(papersFor(row, config))) continue
+
+      for (const g of row.grades) {
+        const before = prev.grades.find((p) => p.grade === g.grade)
+        if (!before) continue
+        const shift = toPct(g.min_mark, row.max_mark) - toPct(before.min_mark, prev.max_mark)
+        if (Math.abs(shift) > tolerance) {
+          report(row, 'warning', 'year_jump', g.grade,
+            `${g.grade} moved ${shift > 0 ? '+' : ''}${shift.toFixed(1)}pp since ${prev.year}`)
+        }
+      }
+    }
+  }
+
+  // Stable sort: within a row, issues keep grade order
+  issues.sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+    a.syllabus_code.localeCompare(b.syllabus_code) ||
+    a.year - b.year ||
+    a.season.localeCompare(b.season) ||
+    (a.tier ?? '').localeCompare(b.tier ?? '') ||
+    a.option_code.localeCompare(b.option_code)
+  )
+
+  const errors = issues.filter((i) => i.severity === 'error').length
+
+  return {
+    generated_at: new Date().toISOString(),
+    source:       'scripts/parsed/thresholds.json',
+    tolerance,
+    rows_checked: rows.length,
+    errors,
+    warnings:     issues.length - errors,
+    issues,
+  }
+}
+
+// ── Main ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Validates the parsed thresholds on disk, writes the report and prints a
+ * summary. Returns null when nothing has been parsed yet.
+ */
+export function runValidation(tolerance: number = DEFAULT_TOLERANCE): ValidationReport | null {
+  const thresholdsPath = join(PARSED_DIR, 'thresholds.json')
+  if (!existsSync(thresholdsPath)) return null
+
+  const rows: ParsedThreshold[] = JSON.parse(readFileSync(thresholdsPath, 'utf-8'))
+  const subjects: SubjectConfig[] = readdirSync(DATA_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => JSON.parse(readFileSync(join(DATA_DIR, f), 'utf-8')))
+
+  const report = validateThresholds(rows, subjects, tolerance)
+
+  mkdirSync(REPORTS_DIR, { recursive: true })
+  writeFileSync(join(REPORTS_DIR, 'validation.json'), JSON.stringify(report, null, 2))
+
+  console.log(`── Validation (${report.rows_checked} rows, tolerance ${report.tolerance}pp) ──`)
+  for (const issue of report.issues) {
+    const where = `${issue.syllabus_code} ${issue.season} ${issue.year} ${issue.tier ?? ''} ${issue.option_code}`.replace(/\s+/g, ' ')
+    const line  = `  ${issue.severity === 'error' ? '✗' : '⚠'}  ${where} [${issue.check}] ${issue.message}`
+    if (issue.severity === 'error') console.error(line)
+    else console.warn(line)
+  }
+  console.log(`  ${report.errors} errors, ${report.warnings} warnings — report written to ${REPORTS_DIR}`)
+
+  return report
+}
+
+function main() {
+  const report = runValidation(parseToleranceArg())
+
+  if (!report) {
+    console.log('No parsed thresholds found. Run pnpm pipeline:parse first.')
+    return
+  }
+  if (report.errors > 0) process.exit(1)
+}
+
+// Only run when invoked directly (pnpm pipeline:validate), not when imported by the seeder
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main()
+}
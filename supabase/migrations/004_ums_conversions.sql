@@ -0,0 +1,18 @@
+-- UMS conversion tables: per paper, per series, the published raw → UMS points.
+-- Marks between two points are linearly interpolated (see lib/calculation/ums.ts).
+create table if not exists ums_conversions (
+  id         uuid primary key default gen_random_uuid(),
+  paper_id   uuid not null references papers(id) on delete cascade,
+  series_id  uuid not null references series(id) on delete cascade,
+  raw_mark   integer not null,
+  ums_mark   integer not null,
+  created_at timestamptz not null default now(),
+  unique (paper_id, series_id, raw_mark)
+);
+
+create index if not exists idx_ums_conversions_paper_id on ums_conversions(paper_id);
+
+alter table ums_conversions enable row level security;
+
+create policy "Public can read ums_conversions"
+  on ums_conversions for select using (true);
@@ -0,0 +1,32 @@
+-- Syllabus options: Cambridge publishes overall thresholds per option (e.g. 0500 with or
+-- without coursework, 0625 BY vs CY), each sitting a different set of components.
+create table if not exists syllabus_options (
+  id           uuid primary key default gen_random_uuid(),
+  subject_id   uuid not null references subjects(id) on delete cascade,
+  tier         text check (tier in ('Core', 'Extended')),
+  option_code  text not null,
+  name         text,
+  components   text[] not null default '{}',
+  is_default   boolean not null default false,
+  created_at   timestamptz not null default now(),
+  unique nulls not distinct (subject_id, tier, option_code)
+);
+
+alter table syllabus_options enable row level security;
+
+create policy "Public can read syllabus_options"
+  on syllabus_options for select using (true);
+
+-- Thresholds are now stored for every option. Existing rows were the default option but
+-- their code wasn't recorded, so they stay as the default (option_code null) until the
+-- seeder writes the same series with option codes and deletes them.
+alter table subject_thresholds add column if not exists option_code text;
+alter table subject_thresholds add column if not exists is_default  boolean not null default true;
+
+alter table subject_thresholds drop constraint if exists subject_thresholds_subject_id_series_id_tier_grade_key;
+alter table subject_thresholds
+  add constraint subject_thresholds_option_grade_key
+  unique nulls not distinct (subject_id, series_id, tier, option_code, grade);
+
+-- Options a paper belongs to; null = every option
+alter table papers add column if not exists option_codes text[];
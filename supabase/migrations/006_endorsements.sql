@@ -0,0 +1,18 @@
+-- Endorsement components (e.g. 0500 speaking and listening) are reported separately
+-- from the A*–G grade on a Distinction / Merit / Pass scale.
+alter table papers add column if not exists is_endorsement boolean not null default false;
+
+create table if not exists endorsement_thresholds (
+  id         uuid primary key default gen_random_uuid(),
+  paper_id   uuid not null references papers(id) on delete cascade,
+  series_id  uuid not null references series(id) on delete cascade,
+  grade      text not null check (grade in ('Distinction', 'Merit', 'Pass')),
+  min_mark   integer not null,
+  created_at timestamptz not null default now(),
+  unique (paper_id, series_id, grade)
+);
+
+alter table endorsement_thresholds enable row level security;
+
+create policy "Public can read endorsement_thresholds"
+  on endorsement_thresholds for select using (true);
@@ -0,0 +1,14 @@
+-- Grading scales: 9–1 syllabuses (0970, 0980, 0971…) are graded 9 (best) to 1
+-- rather than A* to G. Each subject records its scale; both share U.
+alter table subjects add column if not exists grading_scale text not null default 'A*-G'
+  check (grading_scale in ('A*-G', '9-1'));
+
+alter table grade_thresholds drop constraint if exists grade_thresholds_grade_check;
+alter table grade_thresholds
+  add constraint grade_thresholds_grade_check
+  check (grade in ('A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G', '9', '8', '7', '6', '5', '4', '3', '2', '1', 'U'));
+
+alter table subject_thresholds drop constraint if exists subject_thresholds_grade_check;
+alter table subject_thresholds
+  add constraint subject_thresholds_grade_check
+  check (grade in ('A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G', '9', '8', '7', '6', '5', '4', '3', '2', '1', 'U'));
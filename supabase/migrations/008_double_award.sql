@@ -0,0 +1,26 @@
+-- Double award: 0654 Co-ordinated Sciences is graded on a two-letter scale
+-- (A*A*, A*A, AA, AB … GG) and counts as two IGCSEs.
+alter table subjects drop constraint if exists subjects_grading_scale_check;
+alter table subjects
+  add constraint subjects_grading_scale_check
+  check (grading_scale in ('A*-G', '9-1', 'A*A*-GG'));
+
+alter table grade_thresholds drop constraint if exists grade_thresholds_grade_check;
+alter table grade_thresholds
+  add constraint grade_thresholds_grade_check
+  check (grade in (
+    'A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G',
+    '9', '8', '7', '6', '5', '4', '3', '2', '1',
+    'A*A*', 'A*A', 'AA', 'AB', 'BB', 'BC', 'CC', 'CD', 'DD', 'DE', 'EE', 'EF', 'FF', 'FG', 'GG',
+    'U'
+  ));
+
+alter table subject_thresholds drop constraint if exists subject_thresholds_grade_check;
+alter table subject_thresholds
+  add constraint subject_thresholds_grade_check
+  check (grade in (
+    'A*', 'A', 'B', 'C', 'D', 'E', 'F', 'G',
+    '9', '8', '7', '6', '5', '4', '3', '2', '1',
+    'A*A*', 'A*A', 'AA', 'AB', 'BB', 'BC', 'CC', 'CD', 'DD', 'DE', 'EE', 'EF', 'FF', 'FG', 'GG',
+    'U'
+  ));
@@ -0,0 +1,9 @@
+-- Syllabus versions: when Cambridge restructures a syllabus (e.g. 0478 from 2023) the
+-- old and new papers coexist, each valid for a range of exam years (inclusive; null = open).
+alter table papers add column if not exists valid_from integer;
+alter table papers add column if not exists valid_to   integer;
+
+alter table papers drop constraint if exists papers_subject_id_paper_number_tier_key;
+alter table papers
+  add constraint papers_version_key
+  unique nulls not distinct (subject_id, paper_number, tier, valid_from);
@@ -0,0 +1,6 @@
+-- Provenance: the Cambridge document each overall threshold was read from, so a
+-- boundary can be traced back to (and checked against) its source PDF.
+alter table subject_thresholds add column if not exists source_url    text;
+alter table subject_thresholds add column if not exists source_sha256 text;
+alter table subject_thresholds add column if not exists parser_format text;
+alter table subject_thresholds add column if not exists parsed_at     timestamptz;
@@ -0,0 +1,6 @@
+-- Saved estimate entries keep the syllabus option and grading scale they were
+-- calculated with, so reopening one grades it the same way. Older entries were
+-- all the default option on A*–G.
+alter table estimate_entries add column if not exists option_code   text;
+alter table estimate_entries add column if not exists grading_scale text not null default 'A*-G'
+  check (grading_scale in ('A*-G', '9-1', 'A*A*-GG'));
@@ -0,0 +1,495 @@
+// Generated by scripts/gen-db-types.ts from supabase/migrations — do not edit.
+// Regenerate with: pnpm db:types
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      analytics_events: {
+        Row: {
+          id: string
+          event_type: string
+          event_data: Json | null
+          session_id: string | null
+          user_id: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          event_type: string
+          event_data?: Json | null
+          session_id?: string | null
+          user_id?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          event_type?: string
+          event_data?: Json | null
+          session_id?: string | null
+          user_id?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      endorsement_thresholds: {
+        Row: {
+          id: string
+          paper_id: string
+          series_id: string
+          grade: 'Distinction' | 'Merit' | 'Pass'
+          min_mark: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          paper_id: string
+          series_id: string
+          grade: 'Distinction' | 'Merit' | 'Pass'
+          min_mark: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          paper_id?: string
+          series_id?: string
+          grade?: 'Distinction' | 'Merit' | 'Pass'
+          min_mark?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'endorsement_thresholds_paper_id_fkey'
+            columns: ['paper_id']
+            isOneToOne: false
+            referencedRelation: 'papers'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'endorsement_thresholds_series_id_fkey'
+            columns: ['series_id']
+            isOneToOne: false
+            referencedRelation: 'series'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      estimate_entries: {
+        Row: {
+          id: string
+          estimate_id: string
+          subject_id: string
+          tier_selected: 'Core' | 'Extended' | null
+          paper_marks: Json
+          created_at: string
+          option_code: string | null
+          grading_scale: 'A*-G' | '9-1' | 'A*A*-GG'
+        }
+        Insert: {
+          id?: string
+          estimate_id: string
+          subject_id: string
+          tier_selected?: 'Core' | 'Extended' | null
+          paper_marks?: Json
+          created_at?: string
+          option_code?: string | null
+          grading_scale?: 'A*-G' | '9-1' | 'A*A*-GG'
+        }
+        Update: {
+          id?: string
+          estimate_id?: string
+          subject_id?: string
+          tier_selected?: 'Core' | 'Extended' | null
+          paper_marks?: Json
+          created_at?: string
+          option_code?: string | null
+          grading_scale?: 'A*-G' | '9-1' | 'A*A*-GG'
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'estimate_entries_estimate_id_fkey'
+            columns: ['estimate_id']
+            isOneToOne: false
+            referencedRelation: 'saved_estimates'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'estimate_entries_subject_id_fkey'
+            columns: ['subject_id']
+            isOneToOne: false
+            referencedRelation: 'subjects'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      grade_thresholds: {
+        Row: {
+          id: string
+          paper_id: string
+          series_id: string
+          grade: 'A*' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2' | '1' | 'A*A*' | 'A*A' | 'AA' | 'AB' | 'BB' | 'BC' | 'CC' | 'CD' | 'DD' | 'DE' | 'EE' | 'EF' | 'FF' | 'FG' | 'GG' | 'U'
+          min_mark: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          paper_id: string
+          series_id: string
+          grade: 'A*' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2' | '1' | 'A*A*' | 'A*A' | 'AA' | 'AB' | 'BB' | 'BC' | 'CC' | 'CD' | 'DD' | 'DE' | 'EE' | 'EF' | 'FF' | 'FG' | 'GG' | 'U'
+          min_mark: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          paper_id?: string
+          series_id?: string
+          grade?: 'A*' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2' | '1' | 'A*A*' | 'A*A' | 'AA' | 'AB' | 'BB' | 'BC' | 'CC' | 'CD' | 'DD' | 'DE' | 'EE' | 'EF' | 'FF' | 'FG' | 'GG' | 'U'
+          min_mark?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'grade_thresholds_paper_id_fkey'
+            columns: ['paper_id']
+            isOneToOne: false
+            referencedRelation: 'papers'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'grade_thresholds_series_id_fkey'
+            columns: ['series_id']
+            isOneToOne: false
+            referencedRelation: 'series'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      papers: {
+        Row: {
+          id: string
+          subject_id: string
+          paper_number: string
+          name: string
+          tier: 'Core' | 'Extended' | null
+          is_ums: boolean
+          max_raw_mark: number
+          max_ums_mark: number | null
+          weight_percentage: number
+          created_at: string
+          paper_group: string | null
+          option_codes: string[] | null
+          is_endorsement: boolean
+          valid_from: number | null
+          valid_to: number | null
+        }
+        Insert: {
+          id?: string
+          subject_id: string
+          paper_number: string
+          name: string
+          tier?: 'Core' | 'Extended' | null
+          is_ums?: boolean
+          max_raw_mark: number
+          max_ums_mark?: number | null
+          weight_percentage: number
+          created_at?: string
+          paper_group?: string | null
+          option_codes?: string[] | null
+          is_endorsement?: boolean
+          valid_from?: number | null
+          valid_to?: number | null
+        }
+        Update: {
+          id?: string
+          subject_id?: string
+          paper_number?: string
+          name?: string
+          tier?: 'Core' | 'Extended' | null
+          is_ums?: boolean
+          max_raw_mark?: number
+          max_ums_mark?: number | null
+          weight_percentage?: number
+          created_at?: string
+          paper_group?: string | null
+          option_codes?: string[] | null
+          is_endorsement?: boolean
+          valid_from?: number | null
+          valid_to?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'papers_subject_id_fkey'
+            columns: ['subject_id']
+            isOneToOne: false
+            referencedRelation: 'subjects'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      saved_estimates: {
+        Row: {
+          id: string
+          user_id: string | null
+          session_id: string | null
+          label: string | null
+          result: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          session_id?: string | null
+          label?: string | null
+          result?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          session_id?: string | null
+          label?: string | null
+          result?: Json | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'saved_estimates_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'user_profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      series: {
+        Row: {
+          id: string
+          year: number
+          season: 'FM' | 'MJ' | 'ON'
+        }
+        Insert: {
+          id?: string
+          year: number
+          season: 'FM' | 'MJ' | 'ON'
+        }
+        Update: {
+          id?: string
+          year?: number
+          season?: 'FM' | 'MJ' | 'ON'
+        }
+        Relationships: []
+      }
+      subject_thresholds: {
+        Row: {
+          id: string
+          subject_id: string
+          series_id: string
+          tier: 'Core' | 'Extended' | null
+          grade: 'A*' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2' | '1' | 'A*A*' | 'A*A' | 'AA' | 'AB' | 'BB' | 'BC' | 'CC' | 'CD' | 'DD' | 'DE' | 'EE' | 'EF' | 'FF' | 'FG' | 'GG' | 'U'
+          min_mark: number
+          max_mark: number
+          created_at: string
+          option_code: string | null
+          is_default: boolean
+          source_url: string | null
+          source_sha256: string | null
+          parser_format: string | null
+          parsed_at: string | null
+        }
+        Insert: {
+          id?: string
+          subject_id: string
+          series_id: string
+          tier?: 'Core' | 'Extended' | null
+          grade: 'A*' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2' | '1' | 'A*A*' | 'A*A' | 'AA' | 'AB' | 'BB' | 'BC' | 'CC' | 'CD' | 'DD' | 'DE' | 'EE' | 'EF' | 'FF' | 'FG' | 'GG' | 'U'
+          min_mark: number
+          max_mark: number
+          created_at?: string
+          option_code?: string | null
+          is_default?: boolean
+          source_url?: string | null
+          source_sha256?: string | null
+          parser_format?: string | null
+          parsed_at?: string | null
+        }
+        Update: {
+          id?: string
+          subject_id?: string
+          series_id?: string
+          tier?: 'Core' | 'Extended' | null
+          grade?: 'A*' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2' | '1' | 'A*A*' | 'A*A' | 'AA' | 'AB' | 'BB' | 'BC' | 'CC' | 'CD' | 'DD' | 'DE' | 'EE' | 'EF' | 'FF' | 'FG' | 'GG' | 'U'
+          min_mark?: number
+          max_mark?: number
+          created_at?: string
+          option_code?: string | null
+          is_default?: boolean
+          source_url?: string | null
+          source_sha256?: string | null
+          parser_format?: string | null
+          parsed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'subject_thresholds_subject_id_fkey'
+            columns: ['subject_id']
+            isOneToOne: false
+            referencedRelation: 'subjects'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'subject_thresholds_series_id_fkey'
+            columns: ['series_id']
+            isOneToOne: false
+            referencedRelation: 'series'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      subjects: {
+        Row: {
+          id: string
+          syllabus_code: string
+          name: string
+          has_tiers: boolean
+          created_at: string
+          grading_scale: 'A*-G' | '9-1' | 'A*A*-GG'
+        }
+        Insert: {
+          id?: string
+          syllabus_code: string
+          name: string
+          has_tiers?: boolean
+          created_at?: string
+          grading_scale?: 'A*-G' | '9-1' | 'A*A*-GG'
+        }
+        Update: {
+          id?: string
+          syllabus_code?: string
+          name?: string
+          has_tiers?: boolean
+          created_at?: string
+          grading_scale?: 'A*-G' | '9-1' | 'A*A*-GG'
+        }
+        Relationships: []
+      }
+      syllabus_options: {
+        Row: {
+          id: string
+          subject_id: string
+          tier: 'Core' | 'Extended' | null
+          option_code: string
+          name: string | null
+          components: string[]
+          is_default: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          subject_id: string
+          tier?: 'Core' | 'Extended' | null
+          option_code: string
+          name?: string | null
+          components?: string[]
+          is_default?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          subject_id?: string
+          tier?: 'Core' | 'Extended' | null
+          option_code?: string
+          name?: string | null
+          components?: string[]
+          is_default?: boolean
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'syllabus_options_subject_id_fkey'
+            columns: ['subject_id']
+            isOneToOne: false
+            referencedRelation: 'subjects'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      ums_conversions: {
+        Row: {
+          id: string
+          paper_id: string
+          series_id: string
+          raw_mark: number
+          ums_mark: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          paper_id: string
+          series_id: string
+          raw_mark: number
+          ums_mark: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          paper_id?: string
+          series_id?: string
+          raw_mark?: number
+          ums_mark?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'ums_conversions_paper_id_fkey'
+            columns: ['paper_id']
+            isOneToOne: false
+            referencedRelation: 'papers'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'ums_conversions_series_id_fkey'
+            columns: ['series_id']
+            isOneToOne: false
+            referencedRelation: 'series'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      user_profiles: {
+        Row: {
+          id: string
+          display_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id: string
+          display_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          display_name?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: { [_ in never]: never }
+    Functions: { [_ in never]: never }
+    Enums: { [_ in never]: never }
+    CompositeTypes: { [_ in never]: never }
+  }
+}
+
+type PublicTables = Database['public']['Tables']
+
+export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row']
+export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert']
+export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update']
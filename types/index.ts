@@ -2,7 +2,18 @@
 
 export type Tier = 'Core' | 'Extended'
 export type Season = 'FM' | 'MJ' | 'ON'
-export type Grade = 'A*' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'U'
+export type LetterGrade = 'A*' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G'
+export type NumericGrade = '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2' | '1'
+// Double-award subjects (0654 Co-ordinated Sciences) award two letters at once
+export type DoubleGrade =
+  | 'A*A*' | 'A*A' | 'AA' | 'AB' | 'BB' | 'BC' | 'CC' | 'CD'
+  | 'DD' | 'DE' | 'EE' | 'EF' | 'FF' | 'FG' | 'GG'
+// U is shared by every scale: below the lowest boundary
+export type Grade = LetterGrade | NumericGrade | DoubleGrade | 'U'
+export type GradingScale = 'A*-G' | '9-1' | 'A*A*-GG'
+export type GradePair = [LetterGrade, LetterGrade]
+// Endorsements (e.g. 0500 speaking and listening) are reported on their own scale
+export type EndorsementGrade = 'Distinction' | 'Merit' | 'Pass' | 'Ungraded'
 
 export interface PaperConfig {
   paper_number: string
@@ -13,13 +24,30 @@ export interface PaperConfig {
   max_ums_mark: number | null
   weight_percentage: number
   paper_group: string | null
+  is_endorsement?: boolean // graded separately; weight_percentage should be 0
+  valid_from?: number | null // first exam year this paper structure applies to; null = always
+  valid_to?: number | null // last exam year; null = still current
 }
 
 export interface SubjectConfig {
   code: string
   name: string
   has_tiers: boolean
+  grading_scale?: GradingScale // A*-G when omitted
   papers: PaperConfig[]
+  options?: { code: string; name: string }[] // display names for syllabus option codes
+}
+
+/** data/ums/<code>.json — published raw → UMS points per paper and series */
+export interface UmsConversionConfig {
+  code: string
+  conversions: {
+    paper_number: string
+    tier?: Tier | null
+    season: Season
+    year: number
+    points: { raw_mark: number; ums_mark: number }[]
+  }[]
 }
 
 // ─── Database Row Types ─────────────────────────────────────────────────────
@@ -29,6 +57,7 @@ export interface Subject {
   syllabus_code: string
   name: string
   has_tiers: boolean
+  grading_scale: GradingScale
 }
 
 export interface Paper {
@@ -42,6 +71,26 @@ export interface Paper {
   max_ums_mark: number | null
   weight_percentage: number
   paper_group: string | null
+  option_codes: string[] | null // syllabus options this paper is sat under; null = all
+  is_endorsement: boolean
+  valid_from: number | null
+  valid_to: number | null
+}
+
+/** Exam years (inclusive) a syllabus structure applies to; null = open-ended */
+export interface SyllabusVersion {
+  valid_from: number | null
+  valid_to: number | null
+}
+
+export interface SyllabusOption {
+  id: string
+  subject_id: string
+  tier: Tier | null
+  option_code: string
+  name: string | null
+  components: string[]
+  is_default: boolean
 }
 
 export interface Series {
@@ -58,14 +107,36 @@ export interface GradeThreshold {
   min_mark: number
 }
 
+export interface UmsConversion {
+  id: string
+  paper_id: string
+  series_id: string
+  raw_mark: number
+  ums_mark: number
+}
+
+export interface EndorsementThreshold {
+  id: string
+  paper_id: string
+  series_id: string
+  grade: Exclude<EndorsementGrade, 'Ungraded'>
+  min_mark: number
+}
+
 export interface SubjectThreshold {
   id: string
   subject_id: string
   series_id: string
   tier: Tier | null
+  option_code: string | null
+  is_default: boolean
   grade: Grade
   min_mark: number
   max_mark: number
+  source_url: string | null // Cambridge PDF the boundary was read from
+  source_sha256: string | null
+  parser_format: string | null
+  parsed_at: string | null
 }
 
 // ─── Estimation ─────────────────────────────────────────────────────────────
@@ -75,9 +146,22 @@ export interface PaperMarkEntry {
   paper_number: string
   paper_name: string
   raw_mark: number
+  raw_mark_low?: number // optional uncertainty range around raw_mark
+  raw_mark_high?: number
   max_raw_mark: number
   weight_percentage: number
   is_ums: boolean
+  max_ums_mark?: number | null
+  is_endorsement?: boolean
+  valid_from?: number | null
+  valid_to?: number | null
+  questions?: QuestionMark[] // optional question-by-question breakdown; raw_mark is its total
+}
+
+/** One row of a paper's question breakdown; mark -1 = not filled in yet */
+export interface QuestionMark {
+  question: string // as printed on the paper, e.g. "3" or "4(b)"
+  mark: number
 }
 
 export interface SubjectEstimateInput {
@@ -85,15 +169,76 @@ export interface SubjectEstimateInput {
   subject_code: string
   subject_name: string
   tier_selected: Tier | null
+  option_code?: string | null // syllabus option; the default option when omitted
+  grading_scale?: GradingScale // A*-G when omitted
   paper_marks: PaperMarkEntry[]
 }
 
+export type ForecastStrategy = 'recency' | 'regression' | 'smoothing' | 'median'
+export type PoolingMode = 'none' | 'fallback' | 'blend'
+export type SeasonWeights = Partial<Record<Season, number>>
+
 export interface GradeThresholdSummary {
   grade: Grade
-  averaged_pct: number
+  averaged_pct: number // forecast boundary for the upcoming series
   min_pct: number
   max_pct: number
-  year_data: { year: number; pct: number }[]
+  year_data: {
+    year: number
+    season: Season
+    pct: number
+    weight: number
+    source_url?: string | null // Cambridge PDF for the series, where recorded
+  }[] // series that contributed
+  strategy: ForecastStrategy
+  backtest_mae: number | null // mean absolute error (pct points) of the strategy on past series
+}
+
+export interface GradeProbability {
+  grade: Grade
+  probability: number // 0–1
+}
+
+export interface GradeBand {
+  worst: Grade | null    // low end of the mark range against the highest recorded boundaries
+  expected: Grade | null
+  best: Grade | null     // high end of the mark range against the lowest recorded boundaries
+  low_pct: number
+  high_pct: number
+}
+
+export interface PaperEstimateResult {
+  paper_id: string
+  paper_number: string
+  paper_name: string
+  raw_mark: number
+  pct: number
+  estimated_grade: Grade | null
+  thresholds: GradeThresholdSummary[]
+}
+
+export interface EndorsementThresholdSummary extends Omit<GradeThresholdSummary, 'grade'> {
+  grade: Exclude<EndorsementGrade, 'Ungraded'>
+}
+
+export interface EndorsementResult {
+  paper_id: string
+  paper_name: string
+  raw_mark: number
+  max_raw_mark: number
+  grade: EndorsementGrade | null // null when there is no boundary data
+  thresholds: EndorsementThresholdSummary[]
+}
+
+export interface PaperSensitivity {
+  paper_id: string
+  paper_name: string
+  raw_mark: number
+  max_raw_mark: number
+  next_grade: Grade | null // grade above the current estimate; null at the top grade
+  marks_to_next: number | null // extra marks on this paper alone to reach next_grade; null if out of reach
+  lower_grade: Grade | null // grade the estimate would drop to
+  marks_to_drop: number | null // marks this paper can lose and keep the grade; null if it holds even at 0
 }
 
 export interface SubjectEstimateResult {
@@ -101,9 +246,18 @@ export interface SubjectEstimateResult {
   subject_code: string
   subject_name: string
   tier_selected: Tier | null
+  option_code: string | null
+  grading_scale: GradingScale
+  syllabus_version: SyllabusVersion | null // exam years the entered papers' structure covers
   weighted_total_pct: number
   estimated_grade: Grade | null
+  grade_pair: GradePair | null // double-award subjects: estimated_grade as its two letter grades
+  grade_probabilities: GradeProbability[]
+  grade_band: GradeBand
   thresholds: GradeThresholdSummary[]
+  paper_results: PaperEstimateResult[]
+  sensitivity: PaperSensitivity[]
+  endorsement: EndorsementResult | null // separate from estimated_grade
   missing_papers: boolean
 }
 
@@ -112,6 +266,59 @@ export interface EstimateResult {
   calculated_at: string
 }
 
+/**
+ * Boundary data for one subject entry: everything the calculation core needs
+ * besides the marks. Depends on the entry's papers, tier and option, not on
+ * the marks themselves, so it can be fetched once and reused as marks change.
+ */
+export interface SubjectThresholdData {
+  overall: GradeThresholdSummary[]
+  components: Record<string, GradeThresholdSummary[]> // paper_id → the paper's own boundaries
+  endorsements: Record<string, EndorsementThresholdSummary[]> // paper_id → endorsement boundaries
+  ums: Record<string, { raw_mark: number; ums_mark: number }[]> // paper_id → raw → UMS points
+}
+
+/** POST /api/estimate/thresholds: threshold data for each entry, in request order */
+export interface ThresholdDataResult {
+  entries: SubjectThresholdData[]
+}
+
+export interface ReverseEntryInput extends SubjectEstimateInput {
+  target_grade: Grade // papers with raw_mark < 0 are the ones still to sit
+}
+
+export interface RequiredPaperMark {
+  paper_id: string
+  paper_number: string
+  paper_name: string
+  max_raw_mark: number
+  needed_raw: number
+  needed_pct: number
+}
+
+export interface TargetSolution {
+  achievable: boolean
+  balanced: Record<string, number> | null // paper_id → raw mark, same % on every paper
+  combinations: Record<string, number>[] // paper_id → raw mark combinations reaching the target, least mark on the last paper
+  truncated: boolean // combinations were sampled from a coarsened grid, so some are missing
+}
+
+export interface ReverseResult {
+  subject_id: string
+  subject_code: string
+  subject_name: string
+  tier_selected: Tier | null
+  target_grade: Grade
+  target_pct: number | null // forecast boundary; null when the subject has no data for the grade
+  current_pct: number // weighted % already banked from known papers
+  banked_weighted: number // the same, unrounded, in the solver's weighted-percentage points
+  target_weighted: number | null // the boundary in those points; null when target_pct is
+  achievable: boolean
+  already_secured: boolean // the known papers alone clear the boundary
+  remaining_papers: RequiredPaperMark[] // same % needed on each, as raw marks
+  solution: TargetSolution | null // ways to split the marks across remaining papers
+}
+
 // ─── Saved Estimates ────────────────────────────────────────────────────────
 
 export interface SavedEstimate {
@@ -128,6 +335,8 @@ export interface EstimateEntry {
   estimate_id: string
   subject_id: string
   tier_selected: Tier | null
+  option_code?: string | null // syllabus option; the default option when omitted
+  grading_scale?: GradingScale // A*-G when omitted
   paper_marks: PaperMarkEntry[]
 }
 
@@ -136,6 +345,17 @@ export interface EstimateEntry {
 export interface CalculatePayload {
   entries: SubjectEstimateInput[]
   season: Season
+  forecast_strategy?: ForecastStrategy
+  pooling?: PoolingMode
+  season_weights?: SeasonWeights
+}
+
+export interface ReversePayload {
+  entries: ReverseEntryInput[]
+  season: Season
+  forecast_strategy?: ForecastStrategy
+  pooling?: PoolingMode
+  season_weights?: SeasonWeights
 }
 
 export interface SaveEstimatePayload {